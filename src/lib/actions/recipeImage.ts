@@ -0,0 +1,52 @@
+import type { Action } from 'svelte/action'
+import { getImageUrl, isImageRef } from '../services/imageStore'
+import { secureImageUrl } from '../services/recipeParser'
+
+// <img use:recipeImage={recipe.image}>: stored images are loaded when the <img>
+// becomes visible, external URLs are used as is
+function createImageAction(thumbnail: boolean): Action<HTMLImageElement, string | undefined> {
+  return (node, image) => {
+    let current = image
+    let observer: IntersectionObserver | undefined
+
+    function load() {
+      observer?.disconnect()
+      observer = undefined
+
+      if (!isImageRef(current)) {
+        node.src = secureImageUrl(current) ?? ''
+        return
+      }
+
+      const ref = current
+      node.removeAttribute('src')
+      observer = new IntersectionObserver(entries => {
+        if (!entries.some(entry => entry.isIntersecting)) return
+        observer?.disconnect()
+        getImageUrl(ref, thumbnail).then(url => {
+          // Ignore if the image changed meanwhile
+          if (url && current === ref) node.src = url
+        })
+      }, { rootMargin: '200px' })
+      observer.observe(node)
+    }
+
+    load()
+
+    return {
+      update(newImage) {
+        if (newImage === current) return
+        current = newImage
+        load()
+      },
+      destroy() {
+        observer?.disconnect()
+      }
+    }
+  }
+}
+
+export const recipeImage = createImageAction(false)
+
+// Small version, for lists and cards
+export const recipeThumbnail = createImageAction(true)
@@ -0,0 +1,29 @@
+// Recipes for tests: an empty recipe named after its id, with what the test needs on top
+import type { Recipe, RecipeWithMeta } from '../../types'
+
+export function makeRecipe(id: string, overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id,
+    title: id,
+    servings: 4,
+    ingredients: [],
+    steps: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+// Same, with default metadata (to test, no tags, never cooked)
+export function makeRecipeWithMeta(id: string, overrides: Partial<RecipeWithMeta> = {}): RecipeWithMeta {
+  return {
+    ...makeRecipe(id),
+    metadata: { id, status: 'to-test', tags: [], history: [] },
+    ...overrides
+  }
+}
+
+// Ingredients without quantity, from their names
+export function ingredients(...names: string[]): Recipe['ingredients'] {
+  return names.map(name => ({ name, quantity: 1, unit: '' }))
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { parseUrlList, normalizeSourceUrl, indexBySource, runWithConcurrency, parseBatch, type BatchItem } from './batchImport'
+import type { ParsedRecipe } from './recipeParser'
+
+function makeParsed(title: string): ParsedRecipe {
+  return { title, source: '', servings: 4, ingredients: [], steps: [] }
+}
+
+describe('parseUrlList', () => {
+  it('should read one URL per line and ignore other text', () => {
+    const entries = parseUrlList(`https://www.750g.com/tarte-tatin.htm
+Quiche - https://cuisine.example.com/quiche
+
+pas une url`)
+
+    expect(entries.map(e => e.url)).toEqual([
+      'https://www.750g.com/tarte-tatin.htm',
+      'https://cuisine.example.com/quiche'
+    ])
+  })
+
+  it('should read a browser bookmarks export', () => {
+    const entries = parseUrlList(`<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<DL><p>
+  <DT><H3>Recettes</H3>
+  <DL><p>
+    <DT><A HREF="https://www.ricardocuisine.com/recettes/pain" ADD_DATE="1700000000">Pain maison</A>
+    <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+    <DT><A HREF="https://cuisine.example.com/soupe">Soupe</A>
+  </DL><p>
+</DL>`)
+
+    expect(entries).toEqual([
+      { url: 'https://www.ricardocuisine.com/recettes/pain', title: 'Pain maison' },
+      { url: 'https://cuisine.example.com/soupe', title: 'Soupe' }
+    ])
+  })
+
+  it('should remove URLs listed twice', () => {
+    const entries = parseUrlList('https://example.com/tarte/\nhttp://www.example.com/tarte?utm_source=mail')
+    expect(entries).toHaveLength(1)
+  })
+})
+
+describe('normalizeSourceUrl', () => {
+  it('should ignore protocol, www, trailing slash, anchor and tracking parameters', () => {
+    expect(normalizeSourceUrl('https://www.Example.com/recettes/tarte/?utm_source=x&fbclid=1#comments'))
+      .toBe(normalizeSourceUrl('http://example.com/recettes/tarte'))
+  })
+
+  it('should keep meaningful parameters', () => {
+    expect(normalizeSourceUrl('https://example.com/recette.php?id=12'))
+      .not.toBe(normalizeSourceUrl('https://example.com/recette.php?id=13'))
+  })
+
+  it('should find recipes already imported', () => {
+    const index = indexBySource([
+      { id: 'a', source: 'https://www.example.com/tarte/' },
+      { id: 'b' }
+    ])
+    expect(index.get(normalizeSourceUrl('https://example.com/tarte'))?.id).toBe('a')
+  })
+})
+
+describe('runWithConcurrency', () => {
+  it('should never run more workers than the limit', async () => {
+    let running = 0
+    let maxRunning = 0
+    const done: number[] = []
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, item % 3))
+      running--
+      done.push(item)
+    })
+
+    expect(maxRunning).toBe(3)
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('should stop starting new items once aborted', async () => {
+    const controller = new AbortController()
+    const started: number[] = []
+
+    await runWithConcurrency([1, 2, 3, 4], 1, async item => {
+      started.push(item)
+      if (item === 2) controller.abort()
+    }, controller.signal)
+
+    expect(started).toEqual([1, 2])
+  })
+})
+
+describe('parseBatch', () => {
+  it('should report progress and keep errors on their item', async () => {
+    const items: Partial<BatchItem>[] = [{}, {}]
+    const steps: string[] = []
+
+    await parseBatch(['https://example.com/ok', 'https://example.com/ko'], (index, changes) => {
+      Object.assign(items[index], changes)
+      if (changes.step) steps.push(changes.step)
+    }, {
+      parse: async (url, onProgress) => {
+        onProgress?.('Chargement de la page...')
+        if (url.endsWith('ko')) throw new Error('Aucune recette trouvée sur cette page')
+        return makeParsed('Tarte')
+      }
+    })
+
+    expect(items[0]).toMatchObject({ status: 'done', recipe: makeParsed('Tarte') })
+    expect(items[1]).toMatchObject({ status: 'error', error: 'Aucune recette trouvée sur cette page' })
+    expect(steps).toContain('Chargement de la page...')
+  })
+})
@@ -0,0 +1,138 @@
+// Batch Import
+// Import a list of recipe URLs at once (pasted list or bookmarks exported from the
+// browser): pages are loaded a few at a time, URLs already imported are flagged
+
+import { fetchAndParseRecipe, type ParsedRecipe, type ProgressCallback } from './recipeParser'
+
+export type BatchItemStatus = 'pending' | 'loading' | 'done' | 'error'
+
+export interface BatchItem {
+  url: string
+  title?: string // bookmark title
+  status: BatchItemStatus
+  step?: string
+  recipe?: ParsedRecipe
+  error?: string
+}
+
+export interface BatchEntry {
+  url: string
+  title?: string
+}
+
+// Pages loaded at the same time (proxies are slow, but limit their usage)
+export const DEFAULT_CONCURRENCY = 3
+
+// Tracking parameters, ignored when comparing URLs
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|mc_[a-z]+)$/
+
+// ============ URL LIST ============
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const protocol = new URL(url).protocol
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Bookmarks export (Netscape format): <DT><A HREF="https://..." ADD_DATE="...">Title</A>
+function parseBookmarks(html: string): BatchEntry[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return Array.from(doc.querySelectorAll('a[href]'), link => ({
+    url: link.getAttribute('href')!.trim(),
+    title: link.textContent?.trim() || undefined
+  }))
+}
+
+// URLs pasted one per line, or mixed with text ("Tarte - https://...")
+function parsePlainList(text: string): BatchEntry[] {
+  return Array.from(text.matchAll(/https?:\/\/[^\s<>"']+/g), match => ({ url: match[0] }))
+}
+
+// URLs to import, without duplicates and non web links (javascript:, place:...)
+export function parseUrlList(text: string): BatchEntry[] {
+  const entries = /<a\s[^>]*href\s*=/i.test(text) ? parseBookmarks(text) : parsePlainList(text)
+
+  const seen = new Set<string>()
+  return entries.filter(entry => {
+    if (!isHttpUrl(entry.url)) return false
+    const key = normalizeSourceUrl(entry.url)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// ============ DUPLICATES ============
+
+// Comparable form of a URL: no protocol, www, trailing slash, anchor or tracking parameters
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim())
+    const params = [...parsed.searchParams]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+    const search = params.length > 0 ? `?${new URLSearchParams(params)}` : ''
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${search}`
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
+
+// Recipes by normalized source URL, to find URLs already imported
+export function indexBySource<T extends { source?: string }>(recipes: T[]): Map<string, T> {
+  const index = new Map<string, T>()
+  for (const recipe of recipes) {
+    if (recipe.source) index.set(normalizeSourceUrl(recipe.source), recipe)
+  }
+  return index
+}
+
+// ============ PARSING ============
+
+// Run worker on every item, at most `limit` at the same time
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0
+
+  async function run() {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run))
+}
+
+// Load and parse each URL, reporting the state of each item as it changes.
+// Errors are kept on the item: one bad page does not stop the batch
+export async function parseBatch(
+  urls: string[],
+  onUpdate: (index: number, changes: Partial<BatchItem>) => void,
+  options: {
+    concurrency?: number
+    signal?: AbortSignal
+    parse?: (url: string, onProgress?: ProgressCallback) => Promise<ParsedRecipe>
+  } = {}
+): Promise<void> {
+  const { concurrency = DEFAULT_CONCURRENCY, signal, parse = fetchAndParseRecipe } = options
+
+  await runWithConcurrency(urls, concurrency, async (url, index) => {
+    onUpdate(index, { status: 'loading', step: 'Démarrage...' })
+    try {
+      const recipe = await parse(url, step => onUpdate(index, { step }))
+      onUpdate(index, { status: 'done', step: undefined, recipe })
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Erreur lors de l\'analyse'
+      onUpdate(index, { status: 'error', step: undefined, error })
+    }
+  }, signal)
+}
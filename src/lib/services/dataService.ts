@@ -1,111 +1,176 @@
 // Unified Data Service
-// Routes to either IndexedDB (local) or GitHub storage based on configuration
+// IndexedDB is the source of truth; with a remote backend (GitHub, WebDAV...) every
+// change is also queued in the sync outbox and sent in the background (see sync.ts)
 
+import { v4 as uuidv4 } from 'uuid'
 import * as local from './storage'
-import * as github from './githubStorage'
-import type { GitHubConfig } from './githubStorage'
-import type { Recipe, RecipeMetadata, RecipeWithMeta } from '../types'
+import { enqueueChange } from './sync'
+import { dataUrlToBlob, pruneOrphanImages, storeImage } from './imageStore'
+import { isSameRecipe, MAX_REVISIONS } from './revisions'
+import { getActiveBackend, getActiveBackendId, localBackend, LOCAL_BACKEND_ID, type RemoteBackend } from './storageBackend'
+import type { Recipe, RecipeMetadata } from '../types'
 
-export type { ShoppingList, ShoppingItem, ShoppingListStatus, PlanningEntry, ExportData } from './storage'
+export type { ShoppingList, ShoppingItem, ShoppingListStatus, PlanningEntry, PantryItem, RecipeRevision, CookingTimer, ExportData } from './storage'
 export { isGitHubConfigured, getGitHubConfig, saveGitHubConfig, clearGitHubConfig, testGitHubConnection, initializeDataFolder } from './githubStorage'
+export { setConflictResolver } from './remoteStore'
+export type { ConflictResolver } from './remoteStore'
 
-// Helper to route between local and GitHub storage
-async function withStorage<T, Args extends unknown[]>(
-  localFn: (...args: Args) => Promise<T>,
-  githubFn: (config: GitHubConfig, ...args: Args) => Promise<T>,
-  ...args: Args
-): Promise<T> {
-  const config = github.getGitHubConfig()
-  if (config) {
-    return githubFn(config, ...args)
-  }
-  return localFn(...args)
-}
-
-// Get the current storage mode
-export function getStorageMode(): 'local' | 'github' {
-  return github.isGitHubConfigured() ? 'github' : 'local'
+// Get the current storage mode: 'local' or the id of the remote backend
+export function getStorageMode(): string {
+  return getActiveBackend() ? getActiveBackendId() : LOCAL_BACKEND_ID
 }
 
 // ============ RECIPES ============
 
-export const getAllRecipes = () =>
-  withStorage(local.getAllRecipes, github.getAllRecipes)
+export const getAllRecipes = () => local.getAllRecipes()
 
-export const getRecipe = (id: string) =>
-  withStorage(local.getRecipe, github.getRecipe, id)
+export const getRecipe = (id: string) => local.getRecipe(id)
 
-export const saveRecipe = (recipe: Recipe) =>
-  withStorage(local.saveRecipe, github.saveRecipe, recipe)
+export async function saveRecipe(recipe: Recipe): Promise<void> {
+  await recordRevision(recipe)
+  await local.saveRecipe(recipe)
+  await enqueueChange('recipes', 'save', recipe.id, recipe)
+}
 
-export const deleteRecipe = (id: string) =>
-  withStorage(local.deleteRecipe, github.deleteRecipe, id)
+export async function deleteRecipe(id: string): Promise<void> {
+  await local.deleteRecipe(id)
+  await local.deleteRecipeRevisions((await local.getRecipeRevisions(id)).map(r => r.id))
+  await enqueueChange('recipes', 'delete', id)
+  await enqueueChange('metadata', 'delete', id)
+}
 
 export async function saveAllRecipes(recipes: Recipe[]): Promise<void> {
-  const config = github.getGitHubConfig()
-  if (config) {
-    return github.saveAllRecipes(config, recipes)
-  }
-  // For local, save each recipe
   for (const recipe of recipes) {
-    await local.saveRecipe(recipe)
+    await saveRecipe(recipe)
   }
 }
 
+// ============ REVISIONS ============
+
+// Keep the saved version in the recipe history (unless nothing changed)
+async function recordRevision(recipe: Recipe): Promise<void> {
+  const revisions = await local.getRecipeRevisions(recipe.id)
+
+  // Recipe saved before revisions existed: keep the version being replaced
+  if (revisions.length === 0) {
+    const previous = await local.getRecipe(recipe.id)
+    if (previous) {
+      const revision = { id: uuidv4(), recipeId: recipe.id, savedAt: previous.updatedAt, recipe: previous }
+      await local.saveRecipeRevision(revision)
+      revisions.push(revision)
+    }
+  }
+
+  if (revisions.length > 0 && isSameRecipe(revisions[0].recipe, recipe)) return
+
+  await local.saveRecipeRevision({ id: uuidv4(), recipeId: recipe.id, savedAt: new Date().toISOString(), recipe })
+  await local.deleteRecipeRevisions(revisions.slice(MAX_REVISIONS - 1).map(r => r.id))
+}
+
+// Versions saved on this device, newest first
+export const getRecipeRevisions = (recipeId: string) => local.getRecipeRevisions(recipeId)
+
+// The remote backend keeps its own history (GitHub commits)
+export function hasRemoteRecipeHistory(): boolean {
+  return !!getActiveBackend()?.getRecipeHistory
+}
+
+// Versions from the remote history, newest first
+export async function getRemoteRecipeRevisions(recipeId: string): Promise<local.RecipeRevision[]> {
+  const backend = getActiveBackend()
+  return backend?.getRecipeHistory ? backend.getRecipeHistory(recipeId) : []
+}
+
 // ============ METADATA ============
 
-export const getMetadata = (id: string) =>
-  withStorage(local.getMetadata, github.getMetadata, id)
+export const getMetadata = (id: string) => local.getMetadata(id)
 
-export const getAllMetadata = () =>
-  withStorage(local.getAllMetadata, github.getAllMetadata)
+export const getAllMetadata = () => local.getAllMetadata()
 
-export const saveMetadata = (metadata: RecipeMetadata) =>
-  withStorage(local.saveMetadata, github.saveMetadata, metadata)
+export async function saveMetadata(metadata: RecipeMetadata): Promise<void> {
+  await local.saveMetadata(metadata)
+  await enqueueChange('metadata', 'save', metadata.id, metadata)
+}
+
+export async function saveAllMetadata(metadata: RecipeMetadata[]): Promise<void> {
+  for (const meta of metadata) {
+    await saveMetadata(meta)
+  }
+}
 
-export const createDefaultMetadata = (recipeId: string) =>
-  withStorage(local.createDefaultMetadata, github.createDefaultMetadata, recipeId)
+export const createDefaultMetadata = (recipeId: string) => local.createDefaultMetadata(recipeId)
 
 // ============ COMBINED ============
 
-export const getRecipeWithMeta = (id: string) =>
-  withStorage(local.getRecipeWithMeta, github.getRecipeWithMeta, id)
+export const getRecipeWithMeta = (id: string) => local.getRecipeWithMeta(id)
 
-export const getAllRecipesWithMeta = () =>
-  withStorage(local.getAllRecipesWithMeta, github.getAllRecipesWithMeta)
+export const getAllRecipesWithMeta = () => local.getAllRecipesWithMeta()
 
 // ============ PLANNING ============
 
-export const getPlanningForWeek = (weekStart: string) =>
-  withStorage(local.getPlanningForWeek, github.getPlanningForWeek, weekStart)
+export const getPlanningForWeek = (weekStart: string) => local.getPlanningForWeek(weekStart)
 
-export const savePlanningEntry = (entry: local.PlanningEntry) =>
-  withStorage(local.savePlanningEntry, github.savePlanningEntry, entry)
+export const getAllPlanning = () => local.getAllPlanning()
 
-export const deletePlanningEntry = (id: string) =>
-  withStorage(local.deletePlanningEntry, github.deletePlanningEntry, id)
+export async function savePlanningEntry(entry: local.PlanningEntry): Promise<void> {
+  await local.savePlanningEntry(entry)
+  await enqueueChange('planning', 'save', entry.id, entry)
+}
+
+export async function deletePlanningEntry(id: string): Promise<void> {
+  await local.deletePlanningEntry(id)
+  await enqueueChange('planning', 'delete', id)
+}
 
 // ============ SHOPPING LISTS ============
 
-export const getAllShoppingLists = () =>
-  withStorage(local.getAllShoppingLists, github.getAllShoppingLists)
+export const getAllShoppingLists = () => local.getAllShoppingLists()
+
+export const getShoppingList = (id: string) => local.getShoppingList(id)
+
+export async function saveShoppingList(list: local.ShoppingList): Promise<void> {
+  await local.saveShoppingList(list)
+  await enqueueChange('shoppingLists', 'save', list.id, list)
+}
+
+export async function deleteShoppingList(id: string): Promise<void> {
+  await local.deleteShoppingList(id)
+  await enqueueChange('shoppingLists', 'delete', id)
+}
+
+// ============ PANTRY ============
+
+export const getAllPantryItems = () => local.getAllPantryItems()
+
+export async function savePantryItem(item: local.PantryItem): Promise<void> {
+  await local.savePantryItem(item)
+  await enqueueChange('pantry', 'save', item.id, item)
+}
 
-export const getShoppingList = (id: string) =>
-  withStorage(local.getShoppingList, github.getShoppingList, id)
+export async function deletePantryItem(id: string): Promise<void> {
+  await local.deletePantryItem(id)
+  await enqueueChange('pantry', 'delete', id)
+}
 
-export const saveShoppingList = (list: local.ShoppingList) =>
-  withStorage(local.saveShoppingList, github.saveShoppingList, list)
+// ============ TIMERS ============
 
-export const deleteShoppingList = (id: string) =>
-  withStorage(local.deleteShoppingList, github.deleteShoppingList, id)
+// Kept on this device only
+export const getAllTimers = () => local.getAllTimers()
+export const saveTimer = (timer: local.CookingTimer) => local.saveTimer(timer)
+export const deleteTimer = (id: string) => local.deleteTimer(id)
 
 // ============ EXPORT / IMPORT ============
 
-export const exportAllData = () =>
-  withStorage(local.exportAllData, github.exportAllData)
+export const exportAllData = () => local.exportAllData()
 
-export const importAllData = (data: local.ExportData) =>
-  withStorage(local.importAllData, github.importAllData, data)
+export async function importAllData(data: local.ExportData): Promise<void> {
+  await local.importAllData(data)
+  for (const recipe of data.recipes) await enqueueChange('recipes', 'save', recipe.id, recipe)
+  for (const meta of data.metadata) await enqueueChange('metadata', 'save', meta.id, meta)
+  for (const entry of data.planning) await enqueueChange('planning', 'save', entry.id, entry)
+  for (const list of data.shoppingLists) await enqueueChange('shoppingLists', 'save', list.id, list)
+  for (const item of data.pantry ?? []) await enqueueChange('pantry', 'save', item.id, item)
+}
 
 // ============ MIGRATION ============
 
@@ -114,32 +179,30 @@ export async function exportLocalData(): Promise<local.ExportData> {
   return local.exportAllData()
 }
 
-// Migrate from local IndexedDB to GitHub
-export async function migrateToGitHub(): Promise<{ success: boolean; error?: string }> {
-  const config = github.getGitHubConfig()
-  if (!config) {
-    return { success: false, error: 'GitHub non configure' }
-  }
-
+// Send local IndexedDB data to a remote backend
+export async function migrateToRemote(backend: RemoteBackend): Promise<{ success: boolean; error?: string }> {
   try {
     // Get all local data
-    const localData = await local.exportAllData()
+    const localData = await localBackend.exportAllData()
 
     // Check if there's any data to migrate
     const hasData = localData.recipes.length > 0 ||
       localData.metadata.length > 0 ||
       localData.planning.length > 0 ||
-      localData.shoppingLists.length > 0
+      localData.shoppingLists.length > 0 ||
+      (localData.pantry?.length ?? 0) > 0
 
     if (!hasData) {
       return { success: true } // Nothing to migrate
     }
 
-    // Initialize GitHub data folder
-    await github.initializeDataFolder(config)
+    // Initialize remote storage (data folder)
+    await backend.initialize()
+
+    // Images are sent by the next sync
+    await local.markAllImagesUnsynced()
 
-    // Import to GitHub
-    await github.importAllData(config, localData)
+    await backend.importAllData(localData)
 
     return { success: true }
   } catch (e) {
@@ -148,6 +211,29 @@ export async function migrateToGitHub(): Promise<{ success: boolean; error?: str
   }
 }
 
+// Move images embedded as base64 in recipes (older versions) to the image store
+export async function migrateEmbeddedImages(): Promise<number> {
+  const recipes = await local.getAllRecipes()
+  let migrated = 0
+
+  for (const recipe of recipes) {
+    if (!recipe.image?.startsWith('data:')) continue
+    const blob = dataUrlToBlob(recipe.image)
+    if (!blob) continue
+
+    await saveRecipe({ ...recipe, image: await storeImage(blob) })
+    migrated++
+  }
+
+  return migrated
+}
+
+// Delete images no recipe uses anymore (the sync does it when a remote backend is active)
+export async function pruneLocalImages(): Promise<void> {
+  if (getActiveBackend()) return
+  await pruneOrphanImages()
+}
+
 // Clear local data after successful migration
 export async function clearLocalData(): Promise<void> {
   return local.clearAllData()
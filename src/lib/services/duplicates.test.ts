@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { scoreDuplicate, findDuplicates, mergeRecipes, mergeMetadata } from './duplicates'
+import { makeRecipeWithMeta, ingredients } from './__fixtures__/recipes'
+import type { RecipeMetadata, RecipeWithMeta } from '../types'
+
+// The same apple tart, unless a test changes it
+function makeTarte(id: string, overrides: Partial<RecipeWithMeta> = {}): RecipeWithMeta {
+  return makeRecipeWithMeta(id, {
+    title: 'Tarte aux pommes',
+    ingredients: ingredients('pommes', 'pâte brisée', 'sucre', 'beurre'),
+    steps: ['Étaler la pâte', 'Cuire'],
+    ...overrides
+  })
+}
+
+describe('scoreDuplicate', () => {
+  it('should match the same source URL', () => {
+    const result = scoreDuplicate(
+      makeTarte('a', { title: 'Tarte', source: 'https://www.example.com/tarte/' }),
+      makeTarte('b', { title: 'Autre chose', ingredients: [], source: 'http://example.com/tarte?utm_source=x' })
+    )
+    expect(result.score).toBe(1)
+    expect(result.reasons).toContain('source')
+  })
+
+  it('should match close titles and ingredients', () => {
+    const result = scoreDuplicate(
+      makeTarte('a'),
+      makeTarte('b', { title: 'La tarte aux pommes', ingredients: ingredients('Pomme', 'pâte brisée', 'sucre', 'cannelle') })
+    )
+    expect(result.score).toBeGreaterThan(0.8)
+    expect(result.reasons).toEqual(['title'])
+  })
+
+  it('should not match different recipes', () => {
+    const result = scoreDuplicate(
+      makeTarte('a'),
+      makeTarte('b', { title: 'Soupe de poireaux', ingredients: ingredients('poireaux', 'pommes de terre', 'crème') })
+    )
+    expect(result.score).toBeLessThan(0.3)
+  })
+})
+
+describe('findDuplicates', () => {
+  it('should list likely pairs first', () => {
+    const recipes = [
+      makeTarte('a'),
+      makeTarte('b', { title: 'Soupe', ingredients: ingredients('poireaux') }),
+      makeTarte('c', { title: 'Tarte aux pommes facile' }),
+      makeTarte('d', { title: 'Tarte aux pommes', ingredients: ingredients('pommes', 'pâte feuilletée') })
+    ]
+    const pairs = findDuplicates(recipes)
+
+    expect(pairs.map(p => `${p.a.id}${p.b.id}`)).toEqual(['ac', 'ad', 'cd'])
+  })
+})
+
+describe('mergeMetadata', () => {
+  it('should keep all history, tags, the best rating and the most advanced status', () => {
+    const kept: RecipeMetadata = {
+      id: 'a',
+      status: 'testing',
+      rating: 3,
+      tags: ['dessert'],
+      history: [{ date: '2024-03-01', notes: 'Trop sucré' }]
+    }
+    const other: RecipeMetadata = {
+      id: 'b',
+      status: 'validated',
+      rating: 5,
+      tags: ['dessert', 'automne'],
+      history: [{ date: '2024-01-01' }, { date: '2024-03-01', notes: 'Trop sucré' }]
+    }
+
+    expect(mergeMetadata(kept, other)).toEqual({
+      id: 'a',
+      status: 'validated',
+      rating: 5,
+      tags: ['dessert', 'automne'],
+      history: [{ date: '2024-01-01' }, { date: '2024-03-01', notes: 'Trop sucré' }]
+    })
+  })
+
+  it('should not prefer an archived duplicate', () => {
+    const kept: RecipeMetadata = { id: 'a', status: 'to-test', tags: [], history: [] }
+    expect(mergeMetadata(kept, { ...kept, id: 'b', status: 'archived' }).status).toBe('to-test')
+  })
+})
+
+describe('mergeRecipes', () => {
+  it('should keep the chosen recipe and fill its missing fields', () => {
+    const kept = makeTarte('a', { ingredients: ingredients('pommes'), servings: 2 })
+    const other = makeTarte('b', {
+      title: 'Tarte pommes',
+      source: 'https://example.com/tarte',
+      prepTime: 20,
+      servings: 6,
+      createdAt: '2023-06-01T00:00:00.000Z'
+    })
+
+    const { recipe } = mergeRecipes(kept, other)
+
+    expect(recipe.id).toBe('a')
+    expect(recipe.title).toBe('Tarte aux pommes')
+    expect(recipe.source).toBe('https://example.com/tarte')
+    expect(recipe.prepTime).toBe(20)
+    // Longer ingredient list, with its servings
+    expect(recipe.ingredients).toHaveLength(4)
+    expect(recipe.servings).toBe(6)
+    expect(recipe.createdAt).toBe('2023-06-01T00:00:00.000Z')
+    expect(recipe).not.toHaveProperty('metadata')
+  })
+
+  it('should keep step links only with the ingredients and steps they point to', () => {
+    const links = [[0], null]
+    const kept = makeTarte('a', { ingredients: ingredients('pommes'), stepIngredients: links })
+    const other = makeTarte('b', { steps: ['Étaler la pâte'], stepIngredients: [[1]] })
+
+    // Ingredients from `other`, steps from `kept`
+    expect(mergeRecipes(kept, other).recipe).not.toHaveProperty('stepIngredients')
+    // Both from `kept`
+    expect(mergeRecipes(kept, makeTarte('c', { ingredients: [], steps: [] })).recipe.stepIngredients).toEqual(links)
+    // Both from `other`
+    expect(mergeRecipes(makeTarte('d', { ingredients: [], steps: [], stepIngredients: links }), other).recipe.stepIngredients).toEqual([[1]])
+  })
+})
@@ -0,0 +1,150 @@
+// Duplicate recipes
+// Finds recipes imported or typed twice (same source URL, close titles and
+// ingredients) and merges two of them into one
+
+import { normalizeSourceUrl } from './batchImport'
+import { normalizeIngredientName } from './shoppingGenerator'
+import { isVariantPair } from './variants'
+import type { Recipe, RecipeMetadata, RecipeStatus, RecipeWithMeta, HistoryEntry } from '../types'
+
+export type DuplicateReason = 'source' | 'title' | 'ingredients'
+
+export interface DuplicatePair {
+  a: RecipeWithMeta
+  b: RecipeWithMeta
+  score: number // 0-1
+  reasons: DuplicateReason[]
+}
+
+// Minimum score to list a pair
+export const DUPLICATE_THRESHOLD = 0.6
+
+const TITLE_WEIGHT = 0.6
+const INGREDIENTS_WEIGHT = 0.4
+
+// Similarity above which a criterion is shown as a reason
+const REASON_THRESHOLD = 0.7
+
+// Words that do not tell recipes apart ("Tarte aux pommes" = "La tarte pommes")
+const STOP_WORDS = new Set(['a', 'au', 'aux', 'de', 'des', 'du', 'd', 'en', 'et', 'la', 'le', 'les', 'l', 'un', 'une', 'with', 'and', 'the', 'of', 'recette', 'recipe', 'maison', 'facile'])
+
+// Most advanced first. Archived comes last: duplicates are usually archived by hand
+const STATUS_RANK: RecipeStatus[] = ['validated', 'testing', 'to-test', 'archived']
+
+// ============ SCORING ============
+
+function titleWords(title: string): Set<string> {
+  const words = title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .map(word => word.replace(/s$/, ''))
+    .filter(word => word && !STOP_WORDS.has(word))
+  return new Set(words)
+}
+
+// Jaccard index: shared / all
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const item of a) {
+    if (b.has(item)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+function ingredientNames(recipe: Recipe): Set<string> {
+  return new Set(recipe.ingredients.map(i => normalizeIngredientName(i.name)).filter(Boolean))
+}
+
+export function scoreDuplicate(a: Recipe, b: Recipe): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = []
+  const title = similarity(titleWords(a.title), titleWords(b.title))
+  const ingredients = similarity(ingredientNames(a), ingredientNames(b))
+
+  const sameSource = !!a.source && !!b.source && normalizeSourceUrl(a.source) === normalizeSourceUrl(b.source)
+  if (sameSource) reasons.push('source')
+  if (title >= REASON_THRESHOLD) reasons.push('title')
+  if (ingredients >= REASON_THRESHOLD) reasons.push('ingredients')
+
+  const score = sameSource ? 1 : title * TITLE_WEIGHT + ingredients * INGREDIENTS_WEIGHT
+  return { score, reasons }
+}
+
+// Candidate pairs, most likely first
+export function findDuplicates(recipes: RecipeWithMeta[], threshold = DUPLICATE_THRESHOLD): DuplicatePair[] {
+  const pairs: DuplicatePair[] = []
+  for (let i = 0; i < recipes.length; i++) {
+    for (let j = i + 1; j < recipes.length; j++) {
+      // Variants look like their parent on purpose
+      if (isVariantPair(recipes[i], recipes[j])) continue
+      const { score, reasons } = scoreDuplicate(recipes[i], recipes[j])
+      if (score >= threshold) pairs.push({ a: recipes[i], b: recipes[j], score, reasons })
+    }
+  }
+  return pairs.sort((x, y) => y.score - x.score)
+}
+
+// ============ MERGE ============
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+// Field of the kept recipe, or of the other one when missing
+function pick<T>(kept: T, other: T): T {
+  return isEmpty(kept) ? other : kept
+}
+
+// Longest list: the other recipe may have been imported with missing lines
+function pickList<T>(kept: T[], other: T[]): T[] {
+  return other.length > kept.length ? other : kept
+}
+
+function mergeHistory(a: HistoryEntry[], b: HistoryEntry[]): HistoryEntry[] {
+  const entries = new Map<string, HistoryEntry>()
+  for (const entry of [...a, ...b]) {
+    entries.set(`${entry.date}|${entry.notes ?? ''}`, entry)
+  }
+  return [...entries.values()].sort((x, y) => x.date.localeCompare(y.date))
+}
+
+export function mergeMetadata(kept: RecipeMetadata, other: RecipeMetadata): RecipeMetadata {
+  const ratings = [kept.rating, other.rating].filter((r): r is number => r !== undefined)
+  const status = STATUS_RANK.find(s => s === kept.status || s === other.status) ?? kept.status
+
+  return {
+    id: kept.id,
+    status,
+    rating: ratings.length > 0 ? Math.max(...ratings) : undefined,
+    tags: [...new Set([...kept.tags, ...other.tags])],
+    history: mergeHistory(kept.history, other.history)
+  }
+}
+
+// Merge `other` into `kept`: the kept recipe wins, except for missing or shorter fields
+export function mergeRecipes(kept: RecipeWithMeta, other: RecipeWithMeta): { recipe: Recipe; metadata: RecipeMetadata } {
+  const { metadata: keptMetadata, ...keptRecipe } = kept
+  // Quantities go with the servings they were written for
+  const ingredientsFrom = pickList(kept.ingredients, other.ingredients) === kept.ingredients ? kept : other
+  const stepsFrom = pickList(kept.steps, other.steps) === kept.steps ? kept : other
+
+  const recipe: Recipe = {
+    ...keptRecipe,
+    source: pick(kept.source, other.source),
+    image: pick(kept.image, other.image),
+    prepTime: pick(kept.prepTime, other.prepTime),
+    cookTime: pick(kept.cookTime, other.cookTime),
+    servings: ingredientsFrom.servings,
+    ingredients: ingredientsFrom.ingredients,
+    steps: stepsFrom.steps,
+    notes: pick(kept.notes, other.notes),
+    createdAt: kept.createdAt < other.createdAt ? kept.createdAt : other.createdAt,
+    updatedAt: new Date().toISOString()
+  }
+
+  // Step links are indexes: only valid with the ingredients and steps of the same recipe,
+  // otherwise they are found again in the step texts
+  delete recipe.stepIngredients
+  if (ingredientsFrom === stepsFrom && stepsFrom.stepIngredients) recipe.stepIngredients = stepsFrom.stepIngredients
+
+  return { recipe, metadata: mergeMetadata(keptMetadata, other.metadata) }
+}
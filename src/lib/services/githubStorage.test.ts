@@ -1,5 +1,14 @@
-import { describe, it, expect } from 'vitest'
-import { encodeBase64Utf8, decodeBase64Utf8 } from './githubStorage'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  encodeBase64Utf8,
+  decodeBase64Utf8,
+  getGitHubConfig,
+  saveGitHubConfig,
+  clearGitHubConfig,
+  getRepoInfo,
+  getGitHubRecipeHistory
+} from './githubStorage'
+import type { Recipe } from '../types'
 
 describe('Base64 UTF-8 encoding/decoding', () => {
   it('should encode and decode simple ASCII text', () => {
@@ -65,3 +74,88 @@ describe('Base64 UTF-8 encoding/decoding', () => {
     expect(decoded).toBe(original)
   })
 })
+
+describe('GitHub configuration', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should use the default repo when only a token was saved', () => {
+    localStorage.setItem('github-token', 'ghp_old')
+    expect(getGitHubConfig()).toEqual({
+      token: 'ghp_old',
+      owner: 'DavidClaudeAI',
+      repo: 'recettes-app',
+      branch: 'main',
+      dataPath: 'data'
+    })
+  })
+
+  it('should save repo, branch and data folder with the token', () => {
+    saveGitHubConfig({ token: 'ghp_new', owner: ' marie ', repo: 'cuisine', branch: 'donnees', dataPath: '/recettes/json/' })
+    expect(getGitHubConfig()).toEqual({
+      token: 'ghp_new',
+      owner: 'marie',
+      repo: 'cuisine',
+      branch: 'donnees',
+      dataPath: 'recettes/json'
+    })
+  })
+
+  it('should forget the repo on disconnect', () => {
+    saveGitHubConfig({ token: 'ghp_new', owner: 'marie', repo: 'cuisine', branch: 'main', dataPath: '' })
+    clearGitHubConfig()
+    expect(getGitHubConfig()).toBeNull()
+    expect(getRepoInfo().repo).toBe('recettes-app')
+  })
+})
+
+describe('getGitHubRecipeHistory', () => {
+  const config = { token: 'ghp_test', owner: 'marie', repo: 'cuisine', branch: 'main', dataPath: 'data' }
+
+  function recipe(title: string): Recipe {
+    return {
+      id: 'r1',
+      title,
+      servings: 4,
+      ingredients: [],
+      steps: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    }
+  }
+
+  // recipes.json in each commit, newest first
+  const commits: { sha: string; date: string; recipes: Recipe[] }[] = [
+    { sha: 'c4', date: '2024-04-01T00:00:00Z', recipes: [recipe('Tarte aux poires')] },
+    { sha: 'c3', date: '2024-03-01T00:00:00Z', recipes: [recipe('Tarte aux pommes')] },
+    { sha: 'c2', date: '2024-02-01T00:00:00Z', recipes: [recipe('Tarte aux pommes')] },
+    { sha: 'c1', date: '2024-01-01T00:00:00Z', recipes: [] }
+  ]
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const { pathname, searchParams } = new URL(url)
+      if (pathname === '/repos/marie/cuisine/commits') {
+        expect(searchParams.get('path')).toBe('data/recipes.json')
+        return new Response(JSON.stringify(commits.map(c => ({
+          sha: c.sha,
+          commit: { message: `Update ${c.sha}`, author: { name: 'Marie', date: c.date } }
+        }))))
+      }
+      const commit = commits.find(c => c.sha === searchParams.get('ref'))
+      return commit ? new Response(JSON.stringify(commit.recipes)) : new Response(null, { status: 404 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should list the versions of the recipe where it changed', async () => {
+    const history = await getGitHubRecipeHistory(config, 'r1')
+
+    expect(history.map(r => r.id)).toEqual(['c4', 'c2'])
+    expect(history[1]).toMatchObject({ savedAt: '2024-02-01T00:00:00Z', author: 'Marie', recipe: { title: 'Tarte aux pommes' } })
+  })
+})
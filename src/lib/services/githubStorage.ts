@@ -1,30 +1,37 @@
 // GitHub Storage Service
 // Stores data as JSON files in a GitHub repository
 
-// Hardcoded repo configuration (same repo as the app)
+// Default repo configuration (same repo as the app)
 const DEFAULT_OWNER = 'DavidClaudeAI'
 const DEFAULT_REPO = 'recettes-app'
 const DEFAULT_BRANCH = 'main'
+const DEFAULT_DATA_PATH = 'data'
 
 export interface GitHubConfig {
   token: string
   owner: string
   repo: string
   branch: string
+  dataPath: string // folder of the JSON files, '' for the repo root
 }
 
+export type RepoInfo = Omit<GitHubConfig, 'token'>
+
 interface GitHubFile {
   content: string
   sha: string
 }
 
 const CONFIG_KEY = 'github-token'
-const DATA_PATH = 'data'
+const REPO_KEY = 'github-repo'
 
 // UTF-8 safe Base64 encoding/decoding (replaces deprecated unescape/escape)
 export function encodeBase64Utf8(content: string): string {
   const encoder = new TextEncoder()
-  const bytes = encoder.encode(content)
+  return encodeBase64Bytes(encoder.encode(content))
+}
+
+export function encodeBase64Bytes(bytes: Uint8Array): string {
   const binString = Array.from(bytes, b => String.fromCharCode(b)).join('')
   return btoa(binString)
 }
@@ -36,31 +43,27 @@ export function decodeBase64Utf8(base64: string): string {
   return decoder.decode(bytes)
 }
 
-// Get stored config from localStorage (only token is stored, rest is hardcoded)
+// Get stored config from localStorage (token and repo are stored separately)
 export function getGitHubConfig(): GitHubConfig | null {
   const token = localStorage.getItem(CONFIG_KEY)
   if (!token) return null
   return {
     token,
-    owner: DEFAULT_OWNER,
-    repo: DEFAULT_REPO,
-    branch: DEFAULT_BRANCH
+    ...getRepoInfo()
   }
 }
 
-// Save token to localStorage (owner/repo/branch are hardcoded)
+// Save token and repo to localStorage
 export function saveGitHubConfig(config: GitHubConfig): void {
-  localStorage.setItem(CONFIG_KEY, config.token)
-}
-
-// Save just the token
-export function saveGitHubToken(token: string): void {
+  const { token, ...repoInfo } = config
   localStorage.setItem(CONFIG_KEY, token)
+  localStorage.setItem(REPO_KEY, JSON.stringify(normalizeRepoInfo(repoInfo)))
 }
 
 // Clear config
 export function clearGitHubConfig(): void {
   localStorage.removeItem(CONFIG_KEY)
+  localStorage.removeItem(REPO_KEY)
 }
 
 // Check if GitHub is configured (just need a token)
@@ -69,15 +72,38 @@ export function isGitHubConfigured(): boolean {
   return !!token
 }
 
-// Get the hardcoded repo info for display
-export function getRepoInfo(): { owner: string; repo: string; branch: string } {
+// Trim spaces and slashes ("/data/" -> "data")
+export function normalizeRepoInfo(info: RepoInfo): RepoInfo {
   return {
+    owner: info.owner.trim(),
+    repo: info.repo.trim(),
+    branch: info.branch.trim(),
+    dataPath: info.dataPath.trim().replace(/^\/+|\/+$/g, '')
+  }
+}
+
+// Get the stored repo info (defaults when only a token was saved by older versions)
+export function getRepoInfo(): RepoInfo {
+  const defaults: RepoInfo = {
     owner: DEFAULT_OWNER,
     repo: DEFAULT_REPO,
-    branch: DEFAULT_BRANCH
+    branch: DEFAULT_BRANCH,
+    dataPath: DEFAULT_DATA_PATH
+  }
+  const stored = localStorage.getItem(REPO_KEY)
+  if (!stored) return defaults
+  try {
+    return { ...defaults, ...JSON.parse(stored) }
+  } catch {
+    return defaults
   }
 }
 
+// Path of a file in the data folder
+function dataFilePath(config: GitHubConfig, name: string): string {
+  return config.dataPath ? `${config.dataPath}/${name}` : name
+}
+
 // GitHub API helpers
 async function githubFetch(
   config: GitHubConfig,
@@ -103,7 +129,7 @@ async function githubFetch(
 async function getFile(config: GitHubConfig, path: string, noCache = false): Promise<GitHubFile | null> {
   // Add timestamp to prevent caching when needed
   const cacheBuster = noCache ? `&_t=${Date.now()}` : ''
-  const response = await githubFetch(config, `/contents/${path}?ref=${config.branch}${cacheBuster}`)
+  const response = await githubFetch(config, `/contents/${path}?ref=${encodeURIComponent(config.branch)}${cacheBuster}`)
 
   if (response.status === 404) {
     return null
@@ -123,17 +149,34 @@ async function getFile(config: GitHubConfig, path: string, noCache = false): Pro
   }
 }
 
-// Save file to GitHub
+// Get binary file content from GitHub (raw media type, also works above 1 MB)
+async function getRawFile(config: GitHubConfig, path: string): Promise<Blob | null> {
+  const response = await githubFetch(config, `/contents/${path}?ref=${encodeURIComponent(config.branch)}`, {
+    headers: { 'Accept': 'application/vnd.github.raw+json' }
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`)
+  }
+
+  return response.blob()
+}
+
+// Save file to GitHub (text is UTF-8 encoded, bytes are sent as is)
 async function saveFile(
   config: GitHubConfig,
   path: string,
-  content: string,
+  content: string | Uint8Array,
   message: string,
   sha?: string
-): Promise<void> {
+): Promise<string | undefined> {
   const body: Record<string, string> = {
     message,
-    content: encodeBase64Utf8(content),
+    content: typeof content === 'string' ? encodeBase64Utf8(content) : encodeBase64Bytes(content),
     branch: config.branch
   }
 
@@ -154,128 +197,31 @@ async function saveFile(
     if (response.status === 404) {
       throw new Error('Branche ou repo non trouve. Verifiez la config.')
     }
-    if (response.status === 409) {
+    // 422 without sha: the file was created by someone else meanwhile
+    if (response.status === 409 || (response.status === 422 && !sha)) {
       throw new Error('Conflit de version. Rechargez la page et reessayez.')
     }
     throw new Error(`Erreur GitHub: ${error.message || response.status}`)
   }
-}
-
-// Delete file from GitHub
-async function deleteFile(
-  config: GitHubConfig,
-  path: string,
-  sha: string,
-  message: string
-): Promise<void> {
-  const response = await githubFetch(config, `/contents/${path}`, {
-    method: 'DELETE',
-    body: JSON.stringify({
-      message,
-      sha,
-      branch: config.branch
-    })
-  })
-
-  if (!response.ok) {
-    throw new Error(`GitHub delete error: ${response.status}`)
-  }
-}
-
-// Data file paths
-const FILES = {
-  recipes: `${DATA_PATH}/recipes.json`,
-  metadata: `${DATA_PATH}/metadata.json`,
-  planning: `${DATA_PATH}/planning.json`,
-  shoppingLists: `${DATA_PATH}/shopping-lists.json`
-}
-
-// SHA cache to avoid refetching
-const shaCache = new Map<string, string>()
-
-// Retry helper for conflict resolution
-async function withRetry<T>(
-  operation: () => Promise<T>,
-  maxRetries = 3,
-  baseDelay = 150
-): Promise<T> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await operation()
-    } catch (error) {
-      const isConflict = error instanceof Error && error.message.includes('Conflit')
-      if (isConflict && attempt < maxRetries - 1) {
-        await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, attempt)))
-        continue
-      }
-      throw error
-    }
-  }
-  throw new Error('Max retries exceeded') // TypeScript safety
-}
-
-// Generic data operations
-async function getData<T>(config: GitHubConfig, fileKey: keyof typeof FILES, noCache = false): Promise<T[]> {
-  const file = await getFile(config, FILES[fileKey], noCache)
-
-  if (!file) {
-    return []
-  }
-
-  shaCache.set(fileKey, file.sha)
-
-  try {
-    return JSON.parse(file.content)
-  } catch (error) {
-    console.error(`Erreur de parsing JSON pour ${FILES[fileKey]}:`, error)
-    console.error('Contenu invalide:', file.content.substring(0, 200))
-    // Return empty to avoid crash, but log for debugging
-    return []
-  }
-}
-
-async function saveData<T>(
-  config: GitHubConfig,
-  fileKey: keyof typeof FILES,
-  data: T[],
-  message: string,
-  maxRetries = 3
-): Promise<void> {
-  const content = JSON.stringify(data, null, 2)
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // Always get fresh SHA to avoid conflicts (noCache=true)
-      const existingFile = await getFile(config, FILES[fileKey], true)
-      const sha = existingFile?.sha
 
-      await saveFile(config, FILES[fileKey], content, message, sha)
-
-      // Update SHA cache
-      const newFile = await getFile(config, FILES[fileKey])
-      if (newFile) {
-        shaCache.set(fileKey, newFile.sha)
-      }
-      return // Success
-    } catch (error) {
-      const isConflict = error instanceof Error && error.message.includes('Conflit')
-      if (isConflict && attempt < maxRetries - 1) {
-        // Wait with exponential backoff before retry
-        await new Promise(resolve => setTimeout(resolve, 100 * Math.pow(2, attempt)))
-        continue
-      }
-      throw error
-    }
-  }
+  const data = await response.json()
+  return data.content?.sha
 }
 
 // ============ PUBLIC API ============
 
-import type { Recipe, RecipeMetadata, RecipeWithMeta } from '../types'
-import type { PlanningEntry, ShoppingList } from './storage'
+import { createRemoteStore, FILE_NAMES, type RemoteTransport } from './remoteStore'
+import { collapseRevisions } from './revisions'
+import type { RemoteBackend } from './storageBackend'
+import type { RecipeRevision } from './storage'
+import type { Recipe } from '../types'
 
 // Test connection to GitHub
 export async function testGitHubConnection(config: GitHubConfig): Promise<{ success: boolean; error?: string }> {
+  if (!config.owner || !config.repo || !config.branch) {
+    return { success: false, error: 'Proprietaire, repository et branche requis' }
+  }
+
   try {
     // Test repo access
     const response = await githubFetch(config, '')
@@ -285,7 +231,7 @@ export async function testGitHubConnection(config: GitHubConfig): Promise<{ succ
     }
 
     if (response.status === 404) {
-      return { success: false, error: 'Repository non trouve' }
+      return { success: false, error: `Repository ${config.owner}/${config.repo} non trouve` }
     }
 
     if (response.status === 403) {
@@ -302,8 +248,14 @@ export async function testGitHubConnection(config: GitHubConfig): Promise<{ succ
       return { success: false, error: 'Le repo est vide. Ajoutez un README.md d\'abord sur GitHub.' }
     }
 
+    // Check the branch exists
+    const branchResponse = await githubFetch(config, `/branches/${encodeURIComponent(config.branch)}`)
+    if (branchResponse.status === 404) {
+      return { success: false, error: `Branche "${config.branch}" non trouvee` }
+    }
+
     // Test write permission by checking if we can read contents
-    const contentsResponse = await githubFetch(config, `/contents?ref=${config.branch}`)
+    const contentsResponse = await githubFetch(config, `/contents?ref=${encodeURIComponent(config.branch)}`)
     if (contentsResponse.status === 403) {
       return { success: false, error: 'Permission "Contents: Read and write" requise sur le token.' }
     }
@@ -316,225 +268,103 @@ export async function testGitHubConnection(config: GitHubConfig): Promise<{ succ
 
 // Initialize data folder if needed
 export async function initializeDataFolder(config: GitHubConfig): Promise<void> {
+  // Files stored at the repo root: nothing to create
+  if (!config.dataPath) return
+
   // Try to create a .gitkeep file to ensure the data folder exists
-  const file = await getFile(config, `${DATA_PATH}/.gitkeep`)
+  const file = await getFile(config, dataFilePath(config, '.gitkeep'))
 
   if (!file) {
-    await saveFile(config, `${DATA_PATH}/.gitkeep`, '', 'Initialize data folder')
+    await saveFile(config, dataFilePath(config, '.gitkeep'), '', 'Initialize data folder')
   }
 }
 
-// ============ RECIPES ============
-
-export async function getAllRecipes(config: GitHubConfig): Promise<Recipe[]> {
-  return getData<Recipe>(config, 'recipes')
-}
-
-export async function getRecipe(config: GitHubConfig, id: string): Promise<Recipe | undefined> {
-  const recipes = await getAllRecipes(config)
-  return recipes.find(r => r.id === id)
-}
-
-export async function saveRecipe(config: GitHubConfig, recipe: Recipe): Promise<void> {
-  const recipes = await getAllRecipes(config)
-  const index = recipes.findIndex(r => r.id === recipe.id)
-
-  if (index >= 0) {
-    recipes[index] = recipe
-  } else {
-    recipes.push(recipe)
-  }
-
-  await saveData(config, 'recipes', recipes, `Update recipe: ${recipe.title}`)
-}
-
-export async function deleteRecipe(config: GitHubConfig, id: string): Promise<void> {
-  const recipes = await getAllRecipes(config)
-  const filtered = recipes.filter(r => r.id !== id)
-  await saveData(config, 'recipes', filtered, `Delete recipe ${id}`)
-
-  // Also delete metadata
-  const metadata = await getAllMetadata(config)
-  const filteredMeta = metadata.filter(m => m.id !== id)
-  await saveData(config, 'metadata', filteredMeta, `Delete metadata ${id}`)
-}
-
-export async function saveAllRecipes(config: GitHubConfig, recipes: Recipe[]): Promise<void> {
-  await saveData(config, 'recipes', recipes, `Bulk update ${recipes.length} recipes`)
-}
-
-// ============ METADATA ============
-
-export async function getAllMetadata(config: GitHubConfig, noCache = false): Promise<RecipeMetadata[]> {
-  return getData<RecipeMetadata>(config, 'metadata', noCache)
-}
-
-export async function getMetadata(config: GitHubConfig, id: string): Promise<RecipeMetadata | undefined> {
-  const metadata = await getAllMetadata(config)
-  return metadata.find(m => m.id === id)
-}
+// ============ HISTORY ============
 
-export async function saveMetadata(config: GitHubConfig, meta: RecipeMetadata, maxRetries = 3): Promise<void> {
-  return withRetry(async () => {
-    // Use noCache=true to get fresh data and avoid stale SHA conflicts
-    const metadata = await getAllMetadata(config, true)
-    const index = metadata.findIndex(m => m.id === meta.id)
-
-    if (index >= 0) {
-      metadata[index] = meta
-    } else {
-      metadata.push(meta)
-    }
-
-    await saveData(config, 'metadata', metadata, `Update metadata ${meta.id}`, 1)
-  }, maxRetries)
-}
+// Commits read for the history of a recipe (one request each)
+const HISTORY_COMMITS = 20
 
-export async function createDefaultMetadata(config: GitHubConfig, recipeId: string): Promise<RecipeMetadata> {
-  const metadata: RecipeMetadata = {
-    id: recipeId,
-    status: 'to-test',
-    tags: [],
-    history: []
+interface GitHubCommit {
+  sha: string
+  commit: {
+    message: string
+    author: { name: string; date: string }
   }
-  await saveMetadata(config, metadata)
-  return metadata
 }
 
-// ============ COMBINED ============
-
-export async function getRecipeWithMeta(config: GitHubConfig, id: string): Promise<RecipeWithMeta | undefined> {
-  const [recipe, metadata] = await Promise.all([
-    getRecipe(config, id),
-    getMetadata(config, id)
-  ])
-
-  if (!recipe) return undefined
-
-  return {
-    ...recipe,
-    metadata: metadata || await createDefaultMetadata(config, id)
+// Versions of a recipe in the last commits of recipes.json, newest first
+export async function getGitHubRecipeHistory(config: GitHubConfig, recipeId: string): Promise<RecipeRevision[]> {
+  const path = dataFilePath(config, FILE_NAMES.recipes)
+  const response = await githubFetch(
+    config,
+    `/commits?path=${encodeURIComponent(path)}&sha=${encodeURIComponent(config.branch)}&per_page=${HISTORY_COMMITS}`
+  )
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`)
   }
-}
+  const commits: GitHubCommit[] = await response.json()
 
-export async function getAllRecipesWithMeta(config: GitHubConfig): Promise<RecipeWithMeta[]> {
-  const [recipes, allMetadata] = await Promise.all([
-    getAllRecipes(config),
-    getAllMetadata(config)
-  ])
-
-  const metaMap = new Map(allMetadata.map(m => [m.id, m]))
-
-  return Promise.all(recipes.map(async recipe => ({
-    ...recipe,
-    metadata: metaMap.get(recipe.id) || await createDefaultMetadata(config, recipe.id)
-  })))
-}
-
-// ============ PLANNING ============
-
-export async function getAllPlanning(config: GitHubConfig, noCache = false): Promise<PlanningEntry[]> {
-  return getData<PlanningEntry>(config, 'planning', noCache)
-}
-
-export async function getPlanningForWeek(config: GitHubConfig, weekStart: string): Promise<PlanningEntry[]> {
-  const planning = await getAllPlanning(config)
-  return planning.filter(p => p.weekStart === weekStart)
-}
-
-export async function savePlanningEntry(config: GitHubConfig, entry: PlanningEntry, maxRetries = 3): Promise<void> {
-  return withRetry(async () => {
-    // Use noCache=true to get fresh data and avoid stale SHA conflicts
-    const planning = await getAllPlanning(config, true)
-    const index = planning.findIndex(p => p.id === entry.id)
+  const revisions: RecipeRevision[] = []
+  for (const commit of commits) {
+    const file = await githubFetch(config, `/contents/${path}?ref=${commit.sha}`, {
+      headers: { 'Accept': 'application/vnd.github.raw+json' }
+    })
+    if (!file.ok) continue
 
-    if (index >= 0) {
-      planning[index] = entry
-    } else {
-      planning.push(entry)
+    let recipes: Recipe[]
+    try {
+      recipes = JSON.parse(await file.text())
+    } catch {
+      continue // invalid file in this commit
     }
 
-    await saveData(config, 'planning', planning, `Update planning ${entry.id}`, 1)
-  }, maxRetries)
-}
-
-export async function deletePlanningEntry(config: GitHubConfig, id: string): Promise<void> {
-  const planning = await getAllPlanning(config)
-  const filtered = planning.filter(p => p.id !== id)
-  await saveData(config, 'planning', filtered, `Delete planning ${id}`)
-}
-
-// ============ SHOPPING LISTS ============
-
-export async function getAllShoppingLists(config: GitHubConfig, noCache = false): Promise<ShoppingList[]> {
-  return getData<ShoppingList>(config, 'shoppingLists', noCache)
-}
-
-export async function getShoppingList(config: GitHubConfig, id: string): Promise<ShoppingList | undefined> {
-  const lists = await getAllShoppingLists(config)
-  return lists.find(l => l.id === id)
-}
-
-export async function saveShoppingList(config: GitHubConfig, list: ShoppingList, maxRetries = 3): Promise<void> {
-  return withRetry(async () => {
-    // Use noCache=true to get fresh data and avoid stale SHA conflicts
-    const lists = await getAllShoppingLists(config, true)
-    const index = lists.findIndex(l => l.id === list.id)
-
-    if (index >= 0) {
-      lists[index] = list
-    } else {
-      lists.push(list)
+    const recipe = recipes.find(r => r.id === recipeId)
+    if (!recipe) {
+      // Older commits are from before the recipe was created
+      if (revisions.length > 0) break
+      continue
     }
+    revisions.push({
+      id: commit.sha,
+      recipeId,
+      savedAt: commit.commit.author.date,
+      recipe,
+      author: commit.commit.author.name,
+      message: commit.commit.message
+    })
+  }
 
-    await saveData(config, 'shoppingLists', lists, `Update shopping list: ${list.name}`, 1)
-  }, maxRetries)
-}
-
-export async function deleteShoppingList(config: GitHubConfig, id: string): Promise<void> {
-  const lists = await getAllShoppingLists(config)
-  const filtered = lists.filter(l => l.id !== id)
-  await saveData(config, 'shoppingLists', filtered, `Delete shopping list ${id}`)
-}
-
-// ============ EXPORT ALL DATA ============
-
-export interface ExportData {
-  version: number
-  exportedAt: string
-  recipes: Recipe[]
-  metadata: RecipeMetadata[]
-  planning: PlanningEntry[]
-  shoppingLists: ShoppingList[]
+  return collapseRevisions(revisions)
 }
 
-export async function exportAllData(config: GitHubConfig): Promise<ExportData> {
-  const [recipes, metadata, planning, shoppingLists] = await Promise.all([
-    getAllRecipes(config),
-    getAllMetadata(config),
-    getAllPlanning(config),
-    getAllShoppingLists(config)
-  ])
+// ============ BACKEND ============
 
+// Data files live in the data folder, versions are blob SHAs
+function createGitHubTransport(config: GitHubConfig): RemoteTransport {
   return {
-    version: 1,
-    exportedAt: new Date().toISOString(),
-    recipes,
-    metadata,
-    planning,
-    shoppingLists
+    async readFile(name, noCache) {
+      const file = await getFile(config, dataFilePath(config, name), noCache)
+      return file ? { content: file.content, version: file.sha } : null
+    },
+    writeFile: (name, content, message, version) =>
+      saveFile(config, dataFilePath(config, name), content, message, version),
+    readBlob: name => getRawFile(config, dataFilePath(config, name)),
+    async writeBlob(name, blob, message) {
+      try {
+        await saveFile(config, dataFilePath(config, name), new Uint8Array(await blob.arrayBuffer()), message)
+      } catch (e) {
+        // Already uploaded (same name, same content)
+        if (!(e instanceof Error && e.message.includes('Conflit'))) throw e
+      }
+    }
   }
 }
 
-export async function importAllData(config: GitHubConfig, data: ExportData): Promise<void> {
-  // Sequential writes to avoid conflicts
-  await saveData(config, 'recipes', data.recipes, 'Import recipes')
-  await saveData(config, 'metadata', data.metadata, 'Import metadata')
-  await saveData(config, 'planning', data.planning, 'Import planning')
-  await saveData(config, 'shoppingLists', data.shoppingLists, 'Import shopping lists')
-}
-
-// Clear SHA cache (useful after sync issues)
-export function clearCache(): void {
-  shaCache.clear()
+export function createGitHubBackend(config: GitHubConfig): RemoteBackend {
+  return {
+    ...createRemoteStore(createGitHubTransport(config)),
+    testConnection: () => testGitHubConnection(config),
+    initialize: () => initializeDataFolder(config),
+    getRecipeHistory: recipeId => getGitHubRecipeHistory(config, recipeId)
+  }
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeImageId,
+  createImageRef,
+  dataUrlToBlob,
+  getImageId,
+  getImageType,
+  getReferencedImageIds,
+  isImageRef,
+  sortUnsyncedImages,
+  ORPHAN_IMAGE_DELAY
+} from './imageStore'
+import type { ImageAsset } from './storage'
+
+// jsdom blobs have no text()
+function readText(blob: Blob | null): Promise<string> {
+  return new Promise(resolve => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(blob!)
+  })
+}
+
+function bytes(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer
+}
+
+describe('Image references', () => {
+  it('should recognize stored image references', () => {
+    expect(isImageRef('asset:abc.webp')).toBe(true)
+    expect(isImageRef('https://example.com/tarte.jpg')).toBe(false)
+    expect(isImageRef('data:image/png;base64,AAAA')).toBe(false)
+    expect(isImageRef(undefined)).toBe(false)
+  })
+
+  it('should convert between ids and references', () => {
+    expect(createImageRef('abc.webp')).toBe('asset:abc.webp')
+    expect(getImageId('asset:abc.webp')).toBe('abc.webp')
+  })
+
+  it('should guess the type from the extension', () => {
+    expect(getImageType('abc.webp')).toBe('image/webp')
+    expect(getImageType('abc.jpg')).toBe('image/jpeg')
+    expect(getImageType('abc.img')).toBe('application/octet-stream')
+  })
+})
+
+describe('computeImageId', () => {
+  it('should name images after the SHA-256 of their content', async () => {
+    expect(await computeImageId(bytes('abc'), 'image/png'))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad.png')
+  })
+
+  it('should give the same id to the same content', async () => {
+    const a = bytes('tarte')
+    const b = bytes('tarte')
+    const c = bytes('soupe')
+    expect(await computeImageId(a, 'image/webp')).toBe(await computeImageId(b, 'image/webp'))
+    expect(await computeImageId(a, 'image/webp')).not.toBe(await computeImageId(c, 'image/webp'))
+  })
+})
+
+describe('dataUrlToBlob', () => {
+  it('should decode base64 data URLs', async () => {
+    const blob = dataUrlToBlob(`data:image/webp;base64,${btoa('image')}`)
+    expect(blob?.type).toBe('image/webp')
+    expect(await readText(blob)).toBe('image')
+  })
+
+  it('should decode URL-encoded data URLs', async () => {
+    const blob = dataUrlToBlob('data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E')
+    expect(blob?.type).toBe('image/svg+xml')
+    expect(await readText(blob)).toBe('<svg/>')
+  })
+
+  it('should reject invalid data URLs', () => {
+    expect(dataUrlToBlob('https://example.com/tarte.jpg')).toBeNull()
+    expect(dataUrlToBlob('data:image/png;base64,%%%')).toBeNull()
+  })
+})
+
+describe('sortUnsyncedImages', () => {
+  const now = new Date('2024-05-10T12:00:00.000Z').getTime()
+
+  function image(id: string, age: number): ImageAsset {
+    return { id, blob: new Blob(), synced: 0, createdAt: new Date(now - age).toISOString() }
+  }
+
+  it('should only send images used by a recipe and delete old orphans', () => {
+    const referenced = getReferencedImageIds([
+      { image: 'asset:used.webp' },
+      { image: 'https://example.com/tarte.jpg' },
+      { image: undefined }
+    ])
+    const { upload, orphans } = sortUnsyncedImages(
+      [image('used.webp', 2 * ORPHAN_IMAGE_DELAY), image('cancelled.webp', 2 * ORPHAN_IMAGE_DELAY), image('picked.webp', 60_000)],
+      referenced,
+      now
+    )
+
+    expect(upload.map(i => i.id)).toEqual(['used.webp'])
+    // Just picked: its form may still be open
+    expect(orphans.map(i => i.id)).toEqual(['cancelled.webp'])
+  })
+})
@@ -0,0 +1,225 @@
+// Image Store
+// Recipe images are stored apart from recipes.json, named after the SHA-256 of their
+// content: `images` store in IndexedDB, `<data folder>/images/` on the server.
+// Recipes only keep a reference ("asset:<sha256>.webp"); images missing on this
+// device are downloaded when displayed, and sent to the server by the sync.
+
+import * as local from './storage'
+import { getActiveBackend } from './storageBackend'
+import type { ImageAsset } from './storage'
+import type { Recipe } from '../types'
+
+export const IMAGE_REF_PREFIX = 'asset:'
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/avif': 'avif'
+}
+
+const THUMBNAIL_WIDTH = 400
+const THUMBNAIL_HEIGHT = 300
+
+// ============ REFERENCES ============
+
+export function isImageRef(image: string | undefined): image is string {
+  return !!image && image.startsWith(IMAGE_REF_PREFIX)
+}
+
+export function createImageRef(id: string): string {
+  return IMAGE_REF_PREFIX + id
+}
+
+export function getImageId(ref: string): string {
+  return ref.slice(IMAGE_REF_PREFIX.length)
+}
+
+// Id of an image: hash of its content + extension of its type
+export async function computeImageId(data: ArrayBuffer, type: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+  return `${hash}.${EXTENSIONS[type] ?? 'img'}`
+}
+
+// Servers do not always return the type (GitHub raw files are application/octet-stream)
+export function getImageType(id: string): string {
+  const extension = id.split('.').pop()
+  const type = Object.keys(EXTENSIONS).find(t => EXTENSIONS[t] === extension)
+  return type ?? 'application/octet-stream'
+}
+
+// Decode a data URL (images embedded in recipes by older versions)
+export function dataUrlToBlob(dataUrl: string): Blob | null {
+  const match = dataUrl.match(/^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s)
+  if (!match) return null
+
+  const [, type, , base64, data] = match
+  try {
+    const bytes = base64
+      ? Uint8Array.from(atob(data), c => c.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(data))
+    return new Blob([bytes], { type: type || 'application/octet-stream' })
+  } catch {
+    return null
+  }
+}
+
+// ============ STORE ============
+
+// Store an image on this device, returns the reference to put in the recipe
+export async function storeImage(blob: Blob): Promise<string> {
+  const data = await blob.arrayBuffer()
+  const id = await computeImageId(data, blob.type)
+
+  // Same content, same id: nothing to store twice
+  if (!await local.getImage(id)) {
+    await local.saveImage({
+      id,
+      blob: new Blob([data], { type: blob.type }),
+      synced: 0,
+      createdAt: new Date().toISOString()
+    })
+  }
+  return createImageRef(id)
+}
+
+// Image of an imported recipe: its downloaded copy once stored, else its URL
+export async function storeImportedImage(recipe: { image?: string; imageBlob?: Blob }): Promise<string | undefined> {
+  return recipe.imageBlob ? storeImage(recipe.imageBlob) : recipe.image
+}
+
+// Image content, downloaded from the server if it is not on this device yet
+async function loadImage(id: string): Promise<Blob | undefined> {
+  const stored = await local.getImage(id)
+  if (stored) return stored.blob
+
+  const backend = getActiveBackend()
+  if (!backend) return undefined
+
+  const remote = await backend.getImage(id)
+  if (!remote) return undefined
+
+  const blob = new Blob([remote], { type: getImageType(id) })
+  await local.saveImage({ id, blob, synced: 1, createdAt: new Date().toISOString() })
+  return blob
+}
+
+async function loadThumbnail(id: string): Promise<Blob | undefined> {
+  const stored = await local.getThumbnail(id)
+  if (stored) return stored
+
+  const image = await loadImage(id)
+  if (!image) return undefined
+
+  const thumbnail = await resizeImage(image, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, 0.7)
+  await local.saveThumbnail(id, thumbnail)
+  return thumbnail
+}
+
+// Object URLs are kept for the whole session, the same images are shown on many pages
+const urlCache = new Map<string, Promise<string | undefined>>()
+
+// URL to display a stored image (thumbnail: small version for lists)
+export function getImageUrl(ref: string, thumbnail = false): Promise<string | undefined> {
+  const id = getImageId(ref)
+  const key = thumbnail ? `${id}#thumbnail` : id
+
+  let url = urlCache.get(key)
+  if (!url) {
+    url = (thumbnail ? loadThumbnail(id) : loadImage(id))
+      .then(blob => blob && URL.createObjectURL(blob))
+      .catch(error => {
+        console.warn('Image non disponible:', id, error instanceof Error ? error.message : error)
+        return undefined
+      })
+      .then(result => {
+        // Offline or not uploaded yet: try again next time
+        if (!result) urlCache.delete(key)
+        return result
+      })
+    urlCache.set(key, url)
+  }
+  return url
+}
+
+// ============ ORPHANS ============
+
+// Images picked in a form are stored before the recipe is saved.
+// Those no recipe uses are not sent, and deleted after this delay (form still open meanwhile)
+export const ORPHAN_IMAGE_DELAY = 24 * 60 * 60 * 1000
+
+// Ids of the stored images used by these recipes
+export function getReferencedImageIds(recipes: Pick<Recipe, 'image'>[]): Set<string> {
+  return new Set(recipes.map(r => r.image).filter(isImageRef).map(getImageId))
+}
+
+// Unsynced images to send, and the orphans to delete
+export function sortUnsyncedImages(
+  images: ImageAsset[],
+  referenced: Set<string>,
+  now = Date.now()
+): { upload: ImageAsset[]; orphans: ImageAsset[] } {
+  const upload: ImageAsset[] = []
+  const orphans: ImageAsset[] = []
+  for (const image of images) {
+    if (referenced.has(image.id)) upload.push(image)
+    else if (now - new Date(image.createdAt).getTime() > ORPHAN_IMAGE_DELAY) orphans.push(image)
+  }
+  return { upload, orphans }
+}
+
+// Delete the old orphans (cancelled imports, replaced photos); returns the unsynced images still used.
+// Images kept in a saved version of a recipe are still used
+export async function pruneOrphanImages(): Promise<ImageAsset[]> {
+  const recipes = [...await local.getAllRecipes(), ...(await local.getAllRecipeRevisions()).map(r => r.recipe)]
+  const { upload, orphans } = sortUnsyncedImages(await local.getUnsyncedImages(), getReferencedImageIds(recipes))
+  for (const image of orphans) {
+    await local.deleteImage(image.id)
+  }
+  return upload
+}
+
+// ============ RESIZE ============
+
+// Check WebP support once
+let webpSupport: boolean | undefined
+
+function supportsWebP(): boolean {
+  if (webpSupport === undefined) {
+    const canvas = document.createElement('canvas')
+    canvas.width = 1
+    canvas.height = 1
+    webpSupport = canvas.toDataURL('image/webp').startsWith('data:image/webp')
+  }
+  return webpSupport
+}
+
+// Resize an image to fit in maxWidth x maxHeight (browser only, uses a canvas)
+export async function resizeImage(blob: Blob, maxWidth: number, maxHeight: number, quality: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  let width = bitmap.width
+  let height = bitmap.height
+
+  if (width > maxWidth) {
+    height = (height * maxWidth) / width
+    width = maxWidth
+  }
+  if (height > maxHeight) {
+    width = (width * maxHeight) / height
+    height = maxHeight
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  // Use WebP if supported (30-50% smaller), fallback to JPEG
+  const format = supportsWebP() ? 'image/webp' : 'image/jpeg'
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('Compression de l\'image impossible')), format, quality)
+  })
+}
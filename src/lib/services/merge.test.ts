@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { mergeRecords, resolveConflicts, isSameRecord } from './merge'
+
+interface Item {
+  id: string
+  title: string
+  updatedAt?: string
+}
+
+const a: Item = { id: 'a', title: 'Tarte', updatedAt: '2024-01-01' }
+const b: Item = { id: 'b', title: 'Soupe', updatedAt: '2024-01-01' }
+const c: Item = { id: 'c', title: 'Gratin', updatedAt: '2024-01-01' }
+
+describe('isSameRecord', () => {
+  it('should ignore key order', () => {
+    expect(isSameRecord({ id: 'a', title: 'x' }, { title: 'x', id: 'a' })).toBe(true)
+  })
+
+  it('should treat a new updatedAt as a change', () => {
+    expect(isSameRecord(a, { ...a, updatedAt: '2024-02-01' })).toBe(false)
+  })
+})
+
+describe('mergeRecords', () => {
+  it('should keep changes made to different records on each side', () => {
+    const local = [{ ...a, title: 'Tarte aux pommes', updatedAt: '2024-02-01' }, b]
+    const remote = [a, { ...b, title: 'Soupe de poireaux', updatedAt: '2024-02-02' }]
+    const { merged, conflicts } = mergeRecords([a, b], local, remote)
+    expect(conflicts).toEqual([])
+    expect(merged.map(r => r.title)).toEqual(['Tarte aux pommes', 'Soupe de poireaux'])
+  })
+
+  it('should keep records added on both sides', () => {
+    const { merged, conflicts } = mergeRecords([a], [a, b], [a, c])
+    expect(conflicts).toEqual([])
+    expect(merged.map(r => r.id)).toEqual(['a', 'c', 'b'])
+  })
+
+  it('should apply deletions from either side', () => {
+    expect(mergeRecords([a, b], [a], [a, b]).merged).toEqual([a])
+    expect(mergeRecords([a, b], [a, b], [b]).merged).toEqual([b])
+  })
+
+  it('should accept the same change made on both sides', () => {
+    const edited = { ...a, title: 'Tarte fine', updatedAt: '2024-02-01' }
+    const { merged, conflicts } = mergeRecords([a], [edited], [edited])
+    expect(conflicts).toEqual([])
+    expect(merged).toEqual([edited])
+  })
+
+  it('should report records changed differently on both sides', () => {
+    const local = { ...a, title: 'Tarte fine', updatedAt: '2024-02-01' }
+    const remote = { ...a, title: 'Tarte tatin', updatedAt: '2024-02-02' }
+    const result = mergeRecords([a], [local], [remote])
+    expect(result.conflicts).toEqual([{ id: 'a', base: a, local, remote }])
+    expect(result.merged).toEqual([remote])
+  })
+
+  it('should report a record deleted on one side and edited on the other', () => {
+    const remote = { ...a, title: 'Tarte tatin', updatedAt: '2024-02-02' }
+    const result = mergeRecords([a], [], [remote])
+    expect(result.conflicts).toEqual([{ id: 'a', base: a, local: null, remote }])
+  })
+})
+
+describe('resolveConflicts', () => {
+  const local = { ...a, title: 'Tarte fine', updatedAt: '2024-02-01' }
+  const remote = { ...a, title: 'Tarte tatin', updatedAt: '2024-02-02' }
+
+  it('should apply the chosen version', () => {
+    const result = mergeRecords([a, b], [local, b], [remote, b])
+    expect(resolveConflicts(result, { a: 'local' })).toEqual([local, b])
+    expect(resolveConflicts(result, { a: 'remote' })).toEqual([remote, b])
+  })
+
+  it('should remove records when the chosen version is a deletion', () => {
+    const result = mergeRecords([a, b], [b], [remote, b])
+    expect(resolveConflicts(result, { a: 'local' })).toEqual([b])
+  })
+})
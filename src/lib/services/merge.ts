@@ -0,0 +1,109 @@
+// Three-way merge of JSON data files
+// Compares the base version (last synced), our local version and the remote version record by record
+
+export interface MergeRecord {
+  id: string
+  updatedAt?: string
+}
+
+// Both sides changed the same record differently (null = deleted)
+export interface MergeConflict<T extends MergeRecord> {
+  id: string
+  base: T | null
+  local: T | null
+  remote: T | null
+}
+
+export interface MergeResult<T extends MergeRecord> {
+  merged: T[] // conflicting records keep the remote version until resolved
+  conflicts: MergeConflict<T>[]
+}
+
+export type ConflictChoice = 'local' | 'remote'
+
+// Error message when the user cancels a conflict resolution
+export const MERGE_CANCELLED = 'Fusion annulee'
+
+// Stable serialization so key order does not count as a change
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize)
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key])
+        return acc
+      }, {})
+  }
+  return value
+}
+
+export function isSameRecord<T>(a: T | null, b: T | null): boolean {
+  if (a === null || b === null) return a === b
+  const aTime = (a as MergeRecord).updatedAt
+  const bTime = (b as MergeRecord).updatedAt
+  // Different updatedAt means a new version, whatever the content
+  if (aTime && bTime && aTime !== bTime) return false
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b))
+}
+
+function indexById<T extends MergeRecord>(records: T[]): Map<string, T> {
+  return new Map(records.map(r => [r.id, r]))
+}
+
+// Merge local and remote changes made since base
+export function mergeRecords<T extends MergeRecord>(base: T[], local: T[], remote: T[]): MergeResult<T> {
+  const baseMap = indexById(base)
+  const localMap = indexById(local)
+  const remoteMap = indexById(remote)
+
+  // Remote order first, then records only known locally
+  const ids = [...remote.map(r => r.id), ...local.map(r => r.id).filter(id => !remoteMap.has(id))]
+
+  const merged: T[] = []
+  const conflicts: MergeConflict<T>[] = []
+
+  for (const id of new Set(ids)) {
+    const baseRecord = baseMap.get(id) ?? null
+    const localRecord = localMap.get(id) ?? null
+    const remoteRecord = remoteMap.get(id) ?? null
+
+    let result: T | null
+    if (isSameRecord(localRecord, remoteRecord)) {
+      result = remoteRecord
+    } else if (isSameRecord(localRecord, baseRecord)) {
+      result = remoteRecord // only remote changed
+    } else if (isSameRecord(remoteRecord, baseRecord)) {
+      result = localRecord // only local changed
+    } else {
+      conflicts.push({ id, base: baseRecord, local: localRecord, remote: remoteRecord })
+      result = remoteRecord ?? localRecord
+    }
+
+    if (result) merged.push(result)
+  }
+
+  return { merged, conflicts }
+}
+
+// Apply the chosen version of each conflict (missing choices keep the remote version)
+export function resolveConflicts<T extends MergeRecord>(
+  result: MergeResult<T>,
+  choices: Record<string, ConflictChoice>
+): T[] {
+  const conflicts = new Map(result.conflicts.map(c => [c.id, c]))
+  const resolved: T[] = []
+
+  for (const record of result.merged) {
+    const conflict = conflicts.get(record.id)
+    if (!conflict) {
+      resolved.push(record)
+      continue
+    }
+    const chosen = choices[record.id] === 'local' ? conflict.local : conflict.remote
+    if (chosen) resolved.push(chosen)
+  }
+
+  return resolved
+}
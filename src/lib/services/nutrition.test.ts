@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { findFood, toGrams, estimateNutrition, estimatePlanningNutrition } from './nutrition'
+import { makeRecipe } from './__fixtures__/recipes'
+import type { PlanningEntry } from '../types'
+
+function makeEntry(day: number, recipeId: string): PlanningEntry {
+  return { id: `${day}-${recipeId}`, weekStart: '2024-01-01', day, slot: 'lunch', recipeId }
+}
+
+describe('findFood', () => {
+  it('should match names with plurals, accents and extra words', () => {
+    expect(findFood('Oeufs')?.name).toBe('Oeuf')
+    expect(findFood('Crème fraîche épaisse')?.name).toBe('Crème')
+    expect(findFood('huile d\'olive')?.name).toBe('Huile')
+  })
+
+  it('should prefer the longest name', () => {
+    expect(findFood('pommes de terre')?.name).toBe('Pomme de terre')
+    expect(findFood('jaunes d\'oeufs')?.name).toBe('Jaune d\'oeuf')
+  })
+
+  it('should allow a typo in long words', () => {
+    expect(findFood('courgete')?.name).toBe('Courgette')
+    expect(findFood('poudre de perlimpinpin')).toBeNull()
+  })
+})
+
+describe('toGrams', () => {
+  it('should weigh pieces, spoons and amount words', () => {
+    expect(toGrams(2, '', findFood('oeufs')!)).toBe(110)
+    expect(toGrams(1, 'c. à soupe', findFood('huile')!)).toBeCloseTo(13.8)
+    expect(toGrams(2, 'gousses', findFood('ail')!)).toBe(10)
+    expect(toGrams(1, 'sachet', findFood('levure chimique')!)).toBe(11)
+    expect(toGrams(50, 'cl', findFood('lait')!)).toBeCloseTo(515)
+  })
+
+  it('should not guess what cannot be weighed', () => {
+    expect(toGrams(1, '', findFood('farine')!)).toBeNull()
+    expect(toGrams(2, 'portions', findFood('beurre')!)).toBeNull()
+  })
+})
+
+describe('estimateNutrition', () => {
+  it('should give totals per serving and list the ingredients not counted', () => {
+    const recipe = makeRecipe('omelette', {
+      servings: 2,
+      ingredients: [
+        { name: 'oeufs', quantity: 4, unit: '' },
+        { name: 'beurre', quantity: 20, unit: 'g' },
+        { name: 'sel', quantity: 0, unit: '' },
+        { name: 'truffe', quantity: 10, unit: 'g' }
+      ]
+    })
+
+    const estimate = estimateNutrition(recipe)
+    // 220 g d'oeufs (308 kcal) + 20 g de beurre (149 kcal)
+    expect(estimate.perServing.calories).toBeCloseTo((308 + 149) / 2)
+    expect(estimate.perServing.protein).toBeCloseTo((27.94 + 0.14) / 2)
+    expect(estimate.unmatched).toEqual(['truffe'])
+  })
+
+  it('should count sub-recipes with their ingredients', () => {
+    const pate = makeRecipe('pate', { servings: 8, ingredients: [{ name: 'farine', quantity: 200, unit: 'g' }] })
+    const tarte = makeRecipe('tarte', { servings: 8, ingredients: [{ name: 'pâte', quantity: 4, unit: 'portions', recipeId: 'pate' }] })
+
+    expect(estimateNutrition(tarte, [pate]).total.calories).toBeCloseTo(350)
+    expect(estimateNutrition(tarte).unmatched).toEqual(['pâte'])
+  })
+})
+
+describe('estimatePlanningNutrition', () => {
+  it('should add one serving of each meal per day and for the week', () => {
+    const pates = makeRecipe('pates', { servings: 4, ingredients: [{ name: 'spaghetti', quantity: 400, unit: 'g' }] })
+    const mystere = makeRecipe('mystere', { servings: 1, ingredients: [{ name: 'ingrédient secret', quantity: 1, unit: '' }] })
+    const entries = [makeEntry(0, 'pates'), makeEntry(0, 'mystere'), makeEntry(2, 'pates'), makeEntry(3, 'deleted')]
+
+    const { days, week } = estimatePlanningNutrition(entries, [pates, mystere])
+    expect(days[0]).toEqual({ nutrients: expect.objectContaining({ calories: 355 }), meals: 2, incomplete: true })
+    expect(days[1].meals).toBe(0)
+    expect(days[2].incomplete).toBe(false)
+    expect(days[3].meals).toBe(0)
+    expect(week.nutrients.calories).toBeCloseTo(710)
+    expect(week.meals).toBe(3)
+  })
+})
@@ -0,0 +1,163 @@
+// Nutrition estimation
+// Rough calories, protein, carbs and fat of a recipe, from the bundled table (nutritionTable.ts).
+// Ingredients are found by name and weighed from their unit ("2 oeufs", "1 c. à soupe d'huile").
+
+import { resolveUnit } from './units'
+import { findWordSequence, singularWords } from './searchIndex'
+import { expandIngredients } from './subRecipes'
+import { NUTRITION_TABLE, UNIT_WEIGHTS, type Nutrients, type NutritionFood } from './nutritionTable'
+import type { PlanningEntry, Recipe } from '../types'
+
+export type { Nutrients, NutritionFood }
+
+export interface NutritionEstimate {
+  total: Nutrients
+  perServing: Nutrients
+  unmatched: string[] // ingredients not counted (unknown or impossible to weigh)
+}
+
+export interface PeriodNutrition {
+  nutrients: Nutrients // per person
+  meals: number
+  incomplete: boolean // one of the meals has ingredients not counted
+}
+
+export function emptyNutrients(): Nutrients {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0 }
+}
+
+export function addNutrients(a: Nutrients, b: Nutrients): Nutrients {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat
+  }
+}
+
+export function scaleNutrients(nutrients: Nutrients, factor: number): Nutrients {
+  return {
+    calories: nutrients.calories * factor,
+    protein: nutrients.protein * factor,
+    carbs: nutrients.carbs * factor,
+    fat: nutrients.fat * factor
+  }
+}
+
+// ============ MATCHING ============
+
+// Same word with at most one typo, for long words ("courgete", "echalotte")
+function isClose(a: string, b: string): boolean {
+  if (a === b) return true
+  if (a.length < 5 || b.length < 5 || Math.abs(a.length - b.length) > 1) return false
+  let i = 0
+  let j = 0
+  let edits = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) return false
+    if (a.length >= b.length) i++
+    if (b.length >= a.length) j++
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+const KEYWORDS = NUTRITION_TABLE.flatMap(food => food.keywords.map(keyword => ({ food, words: singularWords(keyword) })))
+
+// Food of an ingredient name. The longest name found wins ("pommes de terre" is not "pomme"),
+// then the first one ("beurre de cacahuète"); typos are only tried when nothing is found
+export function findFood(name: string): NutritionFood | null {
+  const nameWords = singularWords(name)
+  const matchers = [(a: string, b: string) => a === b, isClose]
+
+  for (const same of matchers) {
+    let best: { food: NutritionFood; length: number; position: number } | null = null
+    for (const keyword of KEYWORDS) {
+      const position = findWordSequence(nameWords, keyword.words, same)
+      if (position < 0) continue
+      if (!best || keyword.words.length > best.length || (keyword.words.length === best.length && position < best.position)) {
+        best = { food: keyword.food, length: keyword.words.length, position }
+      }
+    }
+    if (best) return best.food
+  }
+  return null
+}
+
+// ============ WEIGHT ============
+
+function unitKey(unit: string): string {
+  return singularWords(unit).join(' ')
+}
+
+const AMOUNT_WEIGHTS = new Map(Object.entries(UNIT_WEIGHTS).map(([unit, grams]) => [unitKey(unit), grams]))
+
+// Weight in grams of a quantity of this food, null if it cannot be weighed
+export function toGrams(quantity: number, unit: string, food: NutritionFood): number | null {
+  const def = resolveUnit(unit)
+  if (def?.dimension === 'mass') return quantity * def.factor
+  if (def?.dimension === 'volume') return quantity * def.factor * (food.density ?? 1)
+  if (def?.dimension === 'count') return food.pieceWeight ? quantity * def.factor * food.pieceWeight : null
+
+  // "gousse", "tranche", "pincée"...: weight of this food, or a common one
+  const key = unitKey(unit)
+  const own = Object.entries(food.unitWeights ?? {}).find(([u]) => unitKey(u) === key)
+  const weight = own ? own[1] : AMOUNT_WEIGHTS.get(key)
+  return weight !== undefined ? quantity * weight : null
+}
+
+// ============ ESTIMATES ============
+
+// Sub-recipes are counted with their own ingredients.
+// Ingredients without quantity ("sel, poivre") are left out
+export function estimateNutrition(recipe: Recipe, recipes: Recipe[] | Map<string, Recipe> = []): NutritionEstimate {
+  let total = emptyNutrients()
+  const unmatched: string[] = []
+
+  for (const ingredient of expandIngredients(recipe, recipes)) {
+    if (!(ingredient.quantity > 0)) continue
+    const food = findFood(ingredient.name)
+    const grams = food ? toGrams(ingredient.quantity, ingredient.unit, food) : null
+    if (!food || grams === null) {
+      if (!unmatched.includes(ingredient.name)) unmatched.push(ingredient.name)
+      continue
+    }
+    total = addNutrients(total, scaleNutrients(food.per100g, grams / 100))
+  }
+
+  const servings = recipe.servings > 0 ? recipe.servings : 1
+  return { total, perServing: scaleNutrients(total, 1 / servings), unmatched }
+}
+
+// Per person (one serving of each meal), for each day of a planned week and the whole week
+export function estimatePlanningNutrition(
+  entries: PlanningEntry[],
+  recipes: Recipe[]
+): { days: PeriodNutrition[]; week: PeriodNutrition } {
+  const byId = new Map(recipes.map(r => [r.id, r]))
+  const estimates = new Map<string, NutritionEstimate>()
+  const days: PeriodNutrition[] = Array.from({ length: 7 }, () => ({ nutrients: emptyNutrients(), meals: 0, incomplete: false }))
+  const week: PeriodNutrition = { nutrients: emptyNutrients(), meals: 0, incomplete: false }
+
+  for (const entry of entries) {
+    const recipe = byId.get(entry.recipeId)
+    const day = days[entry.day]
+    if (!recipe || !day) continue
+    let estimate = estimates.get(recipe.id)
+    if (!estimate) {
+      estimate = estimateNutrition(recipe, byId)
+      estimates.set(recipe.id, estimate)
+    }
+    for (const period of [day, week]) {
+      period.nutrients = addNutrients(period.nutrients, estimate.perServing)
+      period.meals++
+      if (estimate.unmatched.length > 0) period.incomplete = true
+    }
+  }
+
+  return { days, week }
+}
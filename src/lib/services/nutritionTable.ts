@@ -0,0 +1,169 @@
+// Nutrient table, bundled for offline use
+// Rough values per 100 g (CIQUAL-style averages, raw or as usually bought), with what is
+// needed to weigh an ingredient given in ml or in pieces.
+
+export interface Nutrients {
+  calories: number // kcal
+  protein: number // g
+  carbs: number // g
+  fat: number // g
+}
+
+export interface NutritionFood {
+  name: string
+  keywords: string[] // names recognized in Ingredient.name
+  per100g: Nutrients
+  density?: number // g per ml (default: 1)
+  pieceWeight?: number // g for one piece ("2 oeufs")
+  unitWeights?: Record<string, number> // g for "1 gousse", "1 tranche"...
+}
+
+function food(
+  name: string,
+  keywords: string[],
+  [calories, protein, carbs, fat]: [number, number, number, number],
+  extra: Pick<NutritionFood, 'density' | 'pieceWeight' | 'unitWeights'> = {}
+): NutritionFood {
+  return { name, keywords, per100g: { calories, protein, carbs, fat }, ...extra }
+}
+
+// Weight of amount words, when the food has none of its own
+export const UNIT_WEIGHTS: Record<string, number> = {
+  'pincée': 0.5,
+  'gousse': 5,
+  'tranche': 30,
+  'sachet': 10,
+  'feuille': 1,
+  'brin': 1,
+  'branche': 1,
+  'botte': 50,
+  'boîte': 400,
+  'noix': 10,
+  'filet': 5,
+  'zeste': 2,
+  'cube': 10,
+  'poignée': 30,
+  'morceau': 20,
+  'verre': 200
+}
+
+export const NUTRITION_TABLE: NutritionFood[] = [
+  // Eggs, dairy
+  food('Oeuf', ['oeuf'], [140, 12.7, 0.3, 9.8], { pieceWeight: 55 }),
+  food('Jaune d\'oeuf', ['jaune d oeuf', 'jaune'], [330, 16, 0.5, 28], { pieceWeight: 18 }),
+  food('Blanc d\'oeuf', ['blanc d oeuf'], [48, 10.5, 0.7, 0.2], { pieceWeight: 35 }),
+  food('Beurre', ['beurre'], [745, 0.7, 0.6, 82], { density: 0.91 }),
+  food('Lait', ['lait'], [46, 3.3, 4.8, 1.6], { density: 1.03 }),
+  food('Lait de coco', ['lait de coco'], [190, 1.8, 3, 19]),
+  food('Crème', ['creme', 'creme fraiche', 'creme liquide'], [292, 2.4, 3, 30]),
+  food('Yaourt', ['yaourt', 'yogourt'], [60, 4, 5, 3], { pieceWeight: 125 }),
+  food('Fromage blanc', ['fromage blanc', 'faisselle'], [75, 7.5, 4, 3]),
+  food('Fromage', ['fromage'], [350, 23, 1, 28]),
+  food('Parmesan', ['parmesan'], [390, 33, 0, 28]),
+  food('Gruyère', ['gruyere', 'emmental', 'comte', 'fromage rape'], [400, 28, 0, 32]),
+  food('Mozzarella', ['mozzarella', 'burrata'], [250, 18, 1, 19], { pieceWeight: 125 }),
+  food('Chèvre', ['chevre'], [300, 18, 1, 25]),
+  food('Feta', ['feta'], [260, 14, 1, 21]),
+  food('Mascarpone', ['mascarpone', 'ricotta'], [420, 5, 4, 42]),
+
+  // Groceries
+  food('Farine', ['farine'], [350, 10, 73, 1.2], { density: 0.55 }),
+  food('Maïzena', ['maizena', 'fecule'], [350, 0.3, 87, 0.1], { density: 0.6 }),
+  food('Sucre', ['sucre', 'cassonade', 'sucre glace', 'vergeoise'], [400, 0, 100, 0], { density: 0.85 }),
+  food('Sucre vanillé', ['sucre vanille'], [400, 0, 100, 0], { unitWeights: { sachet: 7.5 } }),
+  food('Levure', ['levure'], [100, 0, 25, 0], { unitWeights: { sachet: 11 } }),
+  food('Miel', ['miel', 'sirop d erable', 'sirop d agave'], [320, 0.4, 80, 0], { density: 1.4 }),
+  food('Confiture', ['confiture', 'gelee'], [250, 0.5, 60, 0.1], { density: 1.3 }),
+  food('Chocolat', ['chocolat'], [540, 6, 45, 35]),
+  food('Cacao', ['cacao'], [380, 20, 12, 20], { density: 0.5 }),
+  food('Gélatine', ['gelatine'], [340, 85, 0, 0], { unitWeights: { feuille: 2 } }),
+  food('Riz', ['riz'], [355, 7, 78, 1], { density: 0.85 }),
+  food('Pâtes', ['pate', 'spaghetti', 'tagliatelle', 'penne', 'fusilli', 'coquillette', 'macaroni', 'nouille', 'lasagne'], [355, 12, 71, 1.5]),
+  food('Pâte brisée', ['pate brisee', 'pate sablee'], [420, 6, 45, 24], { pieceWeight: 230 }),
+  food('Pâte feuilletée', ['pate feuilletee'], [400, 5, 38, 25], { pieceWeight: 230 }),
+  food('Pâte à pizza', ['pate a pizza'], [260, 8, 48, 4], { pieceWeight: 260 }),
+  food('Semoule', ['semoule', 'couscous', 'boulgour'], [360, 12, 72, 1.5], { density: 0.75 }),
+  food('Quinoa', ['quinoa'], [370, 14, 64, 6], { density: 0.8 }),
+  food('Flocons d\'avoine', ['flocon d avoine', 'avoine'], [370, 13, 60, 7], { density: 0.4 }),
+  food('Lentilles', ['lentille'], [330, 24, 50, 1.5], { density: 0.8 }),
+  food('Pois chiches', ['pois chiche'], [130, 7, 17, 2.5]),
+  food('Haricots secs', ['haricot rouge', 'haricot blanc', 'flageolet'], [110, 8, 14, 0.5]),
+  food('Pain', ['pain', 'baguette'], [270, 9, 52, 2], { pieceWeight: 250, unitWeights: { tranche: 30 } }),
+  food('Pain de mie', ['pain de mie'], [270, 8, 48, 4], { unitWeights: { tranche: 25 } }),
+  food('Chapelure', ['chapelure'], [380, 12, 72, 4], { density: 0.5 }),
+  food('Amandes', ['amande', 'poudre d amande'], [600, 21, 9, 50], { density: 0.45 }),
+  food('Noix', ['noix', 'cerneau'], [680, 15, 7, 65], { pieceWeight: 5 }),
+  food('Noisettes', ['noisette', 'pignon', 'cacahuete'], [630, 14, 7, 60], { density: 0.55 }),
+  food('Noix de coco', ['noix de coco', 'coco rape'], [660, 6, 7, 62], { density: 0.35 }),
+  food('Raisins secs', ['raisin sec'], [300, 3, 68, 0.5]),
+  food('Olives', ['olive'], [150, 1, 3, 15], { pieceWeight: 4 }),
+  food('Huile', ['huile'], [900, 0, 0, 100], { density: 0.92 }),
+  food('Vinaigre', ['vinaigre'], [20, 0, 1, 0]),
+  food('Moutarde', ['moutarde'], [150, 7, 5, 11], { density: 1.1 }),
+  food('Mayonnaise', ['mayonnaise'], [700, 1.5, 2, 76], { density: 0.95 }),
+  food('Sauce soja', ['sauce soja'], [60, 8, 6, 0], { density: 1.15 }),
+  food('Pesto', ['pesto'], [450, 5, 5, 45]),
+  food('Concentré de tomate', ['concentre de tomate'], [80, 4, 13, 0.5], { density: 1.1 }),
+  food('Sauce tomate', ['sauce tomate', 'coulis de tomate', 'tomate pelee', 'passata'], [40, 1.5, 7, 0.5]),
+  food('Bouillon', ['bouillon', 'fond de veau', 'fumet'], [10, 0.5, 1, 0.4]),
+  food('Sel', ['sel', 'fleur de sel'], [0, 0, 0, 0], { density: 1.2 }),
+  food('Epices', ['poivre', 'cumin', 'paprika', 'curry', 'cannelle', 'muscade', 'curcuma', 'piment', 'epice', 'vanille'], [300, 10, 40, 5], { density: 0.5, unitWeights: { 'pincée': 0.3 } }),
+  food('Herbes', ['persil', 'basilic', 'coriandre', 'ciboulette', 'menthe', 'aneth', 'thym', 'romarin', 'laurier', 'estragon', 'herbe'], [45, 3, 5, 0.8], { density: 0.2 }),
+
+  // Drinks
+  food('Eau', ['eau'], [0, 0, 0, 0]),
+  food('Vin', ['vin'], [80, 0.1, 2.5, 0]),
+  food('Jus de citron', ['jus de citron'], [25, 0.4, 8, 0.2]),
+  food('Jus d\'orange', ['jus d orange'], [45, 0.7, 10, 0.2]),
+
+  // Fruit & vegetables
+  food('Pomme de terre', ['pomme de terre', 'patate'], [80, 2, 17, 0.1], { pieceWeight: 150 }),
+  food('Patate douce', ['patate douce'], [86, 1.6, 20, 0.1], { pieceWeight: 200 }),
+  food('Tomate', ['tomate'], [18, 0.9, 3, 0.2], { pieceWeight: 120 }),
+  food('Oignon', ['oignon'], [40, 1.2, 7, 0.2], { pieceWeight: 100 }),
+  food('Echalote', ['echalote'], [72, 2.5, 15, 0.1], { pieceWeight: 25 }),
+  food('Ail', ['ail'], [130, 6, 28, 0.5], { pieceWeight: 5, unitWeights: { 'tête': 50 } }),
+  food('Gingembre', ['gingembre'], [80, 1.8, 15, 0.8], { unitWeights: { morceau: 10 } }),
+  food('Carotte', ['carotte'], [36, 0.8, 7, 0.3], { pieceWeight: 100 }),
+  food('Courgette', ['courgette'], [16, 1.2, 2, 0.3], { pieceWeight: 250 }),
+  food('Aubergine', ['aubergine'], [25, 1, 4, 0.2], { pieceWeight: 300 }),
+  food('Poivron', ['poivron'], [28, 0.9, 5, 0.3], { pieceWeight: 150 }),
+  food('Champignon', ['champignon'], [22, 3, 1, 0.3], { pieceWeight: 20 }),
+  food('Poireau', ['poireau'], [28, 1.5, 4, 0.3], { pieceWeight: 200 }),
+  food('Epinards', ['epinard'], [25, 3, 1, 0.5]),
+  food('Salade', ['salade', 'laitue', 'roquette', 'mache'], [15, 1.3, 1.5, 0.2], { pieceWeight: 300 }),
+  food('Concombre', ['concombre'], [13, 0.6, 2, 0.1], { pieceWeight: 300 }),
+  food('Brocoli', ['brocoli'], [34, 3, 3, 0.4], { pieceWeight: 400 }),
+  food('Chou-fleur', ['chou fleur'], [25, 2, 3, 0.3], { pieceWeight: 800 }),
+  food('Chou', ['chou'], [30, 1.5, 5, 0.2], { pieceWeight: 1000 }),
+  food('Haricots verts', ['haricot vert'], [30, 2, 4, 0.2]),
+  food('Petits pois', ['petit pois'], [80, 5, 10, 0.5]),
+  food('Maïs', ['mais'], [110, 3, 19, 1.5]),
+  food('Avocat', ['avocat'], [200, 2, 2, 20], { pieceWeight: 150 }),
+  food('Céleri', ['celeri', 'fenouil', 'navet', 'radis'], [20, 1, 3, 0.2], { pieceWeight: 150 }),
+  food('Courge', ['courge', 'potiron', 'butternut', 'potimarron'], [30, 1, 6, 0.1], { pieceWeight: 1000 }),
+  food('Citron', ['citron'], [30, 0.8, 3, 0.3], { pieceWeight: 100, unitWeights: { zeste: 2 } }),
+  food('Orange', ['orange'], [45, 0.9, 9, 0.1], { pieceWeight: 200 }),
+  food('Pomme', ['pomme'], [53, 0.3, 12, 0.2], { pieceWeight: 150 }),
+  food('Poire', ['poire'], [55, 0.4, 12, 0.1], { pieceWeight: 170 }),
+  food('Banane', ['banane'], [90, 1.1, 20, 0.3], { pieceWeight: 120 }),
+  food('Fruits rouges', ['fraise', 'framboise', 'myrtille', 'fruit rouge', 'cerise'], [40, 0.8, 7, 0.4]),
+
+  // Meat & fish
+  food('Poulet', ['poulet', 'volaille', 'dinde', 'escalope'], [120, 23, 0, 2.5], { pieceWeight: 150 }),
+  food('Cuisse de poulet', ['cuisse de poulet', 'pilon'], [180, 18, 0, 12], { pieceWeight: 200 }),
+  food('Boeuf', ['boeuf', 'steak', 'veau', 'bavette', 'rumsteck'], [170, 26, 0, 7], { pieceWeight: 150 }),
+  food('Boeuf haché', ['boeuf hache', 'viande hachee', 'steak hache'], [130, 21, 0, 5], { pieceWeight: 100 }),
+  food('Porc', ['porc', 'filet mignon', 'echine'], [200, 24, 0, 12], { pieceWeight: 150 }),
+  food('Agneau', ['agneau', 'mouton'], [230, 22, 0, 16], { pieceWeight: 150 }),
+  food('Lardons', ['lardon', 'bacon', 'poitrine fumee'], [270, 16, 0, 23]),
+  food('Jambon', ['jambon'], [115, 20, 1, 3.5], { unitWeights: { tranche: 45 } }),
+  food('Jambon cru', ['jambon cru', 'jambon de bayonne', 'prosciutto'], [240, 26, 0, 15], { unitWeights: { tranche: 15 } }),
+  food('Saucisse', ['saucisse', 'chipolata', 'merguez'], [280, 14, 1, 25], { pieceWeight: 70 }),
+  food('Chorizo', ['chorizo'], [450, 24, 2, 38], { unitWeights: { tranche: 3 } }),
+  food('Saumon', ['saumon'], [200, 20, 0, 13], { pieceWeight: 130, unitWeights: { 'pavé': 130 } }),
+  food('Thon', ['thon'], [115, 26, 0, 1], { unitWeights: { 'boîte': 140 } }),
+  food('Poisson blanc', ['cabillaud', 'colin', 'merlu', 'lieu', 'poisson'], [80, 18, 0, 0.7], { pieceWeight: 130, unitWeights: { 'pavé': 130 } }),
+  food('Crevettes', ['crevette', 'gambas'], [90, 20, 0, 1], { pieceWeight: 10 }),
+  food('Tofu', ['tofu'], [120, 12, 2, 7])
+]
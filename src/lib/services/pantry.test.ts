@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { subtractPantry, addToPantry, daysUntilExpiry, getExpiringItems } from './pantry'
+import type { PantryItem, ShoppingItem } from './storage'
+
+function item(name: string, quantity?: number, unit = ''): ShoppingItem {
+  return { id: name, name, quantity, unit, checked: false }
+}
+
+function stock(name: string, quantity?: number, unit?: string, expiresAt?: string): PantryItem {
+  return { id: `p-${name}`, name, quantity, unit, expiresAt, createdAt: '2024-01-01T00:00:00.000Z' }
+}
+
+describe('subtractPantry', () => {
+  it('should remove items fully covered by the pantry', () => {
+    const result = subtractPantry([item('riz', 200, 'g'), item('courgettes', 2)], [stock('riz', 1, 'kg')])
+
+    expect(result.items.map(i => i.name)).toEqual(['courgettes'])
+    expect(result.covered.map(i => i.name)).toEqual(['riz'])
+  })
+
+  it('should only buy what is missing', () => {
+    const result = subtractPantry([item('farine', 500, 'g')], [stock('Farine', 0.2, 'kg')])
+    expect(result.items).toEqual([{ ...item('farine', 300, 'g') }])
+  })
+
+  it('should use each pantry quantity once', () => {
+    const result = subtractPantry(
+      [item('lait', 50, 'cl'), item('lait', 2, 'c. à soupe')],
+      [stock('lait', 0.5, 'L')]
+    )
+    expect(result.items).toEqual([item('lait', 2, 'c. à soupe')])
+  })
+
+  it('should consider an item without quantity as enough', () => {
+    const result = subtractPantry([item('sel', 1, 'c. à café'), item('poivre')], [stock('sel'), stock('poivre', 50, 'g')])
+    expect(result.items).toEqual([])
+  })
+
+  it('should not cover an item with a shorter name', () => {
+    const result = subtractPantry([item('pommes de terre', 1, 'kg')], [stock('pommes')])
+    expect(result.items).toEqual([item('pommes de terre', 1, 'kg')])
+  })
+
+  it('should keep items in incompatible units', () => {
+    const result = subtractPantry([item('ail', 2, 'gousses')], [stock('ail', 100, 'g')])
+    expect(result.items).toEqual([item('ail', 2, 'gousses')])
+  })
+})
+
+describe('addToPantry', () => {
+  it('should top up existing items and create the others', () => {
+    const changed = addToPantry(
+      [stock('riz', 500, 'g'), stock('sel')],
+      [item('Riz', 1, 'kg'), item('sel', 1, 'kg'), item('oeufs', 6)]
+    )
+
+    expect(changed).toHaveLength(3)
+    expect(changed[0]).toMatchObject({ id: 'p-riz', quantity: 1500, unit: 'g' })
+    expect(changed[1]).toMatchObject({ id: 'p-sel', quantity: undefined })
+    expect(changed[2]).toMatchObject({ name: 'oeufs', quantity: 6 })
+  })
+})
+
+describe('expiry', () => {
+  const today = new Date(2024, 4, 10)
+
+  it('should count days until the expiry date', () => {
+    expect(daysUntilExpiry(stock('lait', 1, 'L', '2024-05-12'), today)).toBe(2)
+    expect(daysUntilExpiry(stock('lait', 1, 'L', '2024-05-09'), today)).toBe(-1)
+    expect(daysUntilExpiry(stock('riz'), today)).toBeNull()
+  })
+
+  it('should list items expiring soon, closest first', () => {
+    const pantry = [
+      stock('yaourt', 4, '', '2024-05-12'),
+      stock('riz'),
+      stock('jambon', 4, '', '2024-05-30'),
+      stock('crème', 20, 'cl', '2024-05-08')
+    ]
+    expect(getExpiringItems(pantry, 3, today).map(i => i.name)).toEqual(['crème', 'yaourt'])
+  })
+})
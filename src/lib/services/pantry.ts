@@ -0,0 +1,135 @@
+// Pantry
+// What we already have at home: deducted from generated shopping lists, filled
+// from bought items, and used to suggest recipes before food expires
+
+import { v4 as uuidv4 } from 'uuid'
+import { normalizeIngredientName } from './shoppingGenerator'
+import { areUnitsCompatible, convertQuantity, resolveUnit, roundQuantity } from './units'
+import type { PantryItem, ShoppingItem } from './storage'
+
+// Items expiring within this many days are shown first
+export const EXPIRY_WARNING_DAYS = 3
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Quantity expressed in another unit, null if the units cannot be compared
+function convert(quantity: number, from: string, to: string): number | null {
+  if (!areUnitsCompatible(from, to)) return null
+  // Unknown units ("gousses") are only compatible with themselves
+  if (!resolveUnit(from) || !resolveUnit(to)) return quantity
+  return convertQuantity(quantity, from, to)
+}
+
+// Same name only: "pommes" in the pantry does not cover "pommes de terre"
+function isSameFood(pantryName: string, itemName: string): boolean {
+  return normalizeIngredientName(pantryName) === normalizeIngredientName(itemName)
+}
+
+// ============ SHOPPING LISTS ============
+
+// Remove from generated items what the pantry already covers.
+// `covered`: items not needed at all
+export function subtractPantry(
+  items: ShoppingItem[],
+  pantry: PantryItem[]
+): { items: ShoppingItem[]; covered: ShoppingItem[] } {
+  // Quantities left in the pantry, each one can only be used once
+  const available = new Map(pantry.map(p => [p.id, p.quantity]))
+  const remaining: ShoppingItem[] = []
+  const covered: ShoppingItem[] = []
+
+  for (const item of items) {
+    let needed = item.quantity
+
+    for (const pantryItem of pantry) {
+      if (needed === 0 || !isSameFood(pantryItem.name, item.name)) continue
+
+      const stock = available.get(pantryItem.id)
+      // "Some" in the pantry, or no quantity on the list: nothing to buy
+      if (stock === undefined || needed === undefined) {
+        needed = 0
+        break
+      }
+
+      const stockInItemUnit = convert(stock, pantryItem.unit ?? '', item.unit ?? '')
+      if (stockInItemUnit === null || stockInItemUnit <= 0) continue
+
+      const used = Math.min(needed, stockInItemUnit)
+      needed = roundQuantity(needed - used)
+      available.set(pantryItem.id, stock - stock * (used / stockInItemUnit))
+    }
+
+    if (needed === 0) {
+      covered.push(item)
+    } else {
+      remaining.push(needed === item.quantity ? item : { ...item, quantity: needed })
+    }
+  }
+
+  return { items: remaining, covered }
+}
+
+// Pantry items to save once bought items are put away (existing ones are topped up)
+export function addToPantry(pantry: PantryItem[], items: ShoppingItem[]): PantryItem[] {
+  const now = new Date().toISOString()
+  const changed = new Map<string, PantryItem>()
+
+  for (const item of items) {
+    const current = [...changed.values(), ...pantry]
+    const existing = current.find(p =>
+      normalizeIngredientName(p.name) === normalizeIngredientName(item.name) &&
+      (p.quantity === undefined || item.quantity === undefined ||
+        convert(item.quantity, item.unit ?? '', p.unit ?? '') !== null)
+    )
+
+    if (existing) {
+      const added = item.quantity !== undefined && existing.quantity !== undefined
+        ? convert(item.quantity, item.unit ?? '', existing.unit ?? '')!
+        : undefined
+      changed.set(existing.id, {
+        ...existing,
+        // Unknown quantity on either side: keep "some"
+        quantity: added === undefined ? undefined : roundQuantity(existing.quantity! + added),
+        updatedAt: now
+      })
+    } else {
+      const created: PantryItem = { id: uuidv4(), name: item.name, createdAt: now }
+      if (item.quantity !== undefined) created.quantity = item.quantity
+      if (item.unit) created.unit = item.unit
+      changed.set(created.id, created)
+    }
+  }
+
+  return [...changed.values()]
+}
+
+// ============ EXPIRY ============
+
+// Days before the expiry date (negative once expired), null without date
+export function daysUntilExpiry(item: PantryItem, today = new Date()): number | null {
+  if (!item.expiresAt) return null
+  const [year, month, day] = item.expiresAt.split('-').map(Number)
+  const expiry = new Date(year, month - 1, day)
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  return Math.round((expiry.getTime() - start.getTime()) / DAY)
+}
+
+// Items to use soon, closest expiry first (expired ones included)
+export function getExpiringItems(pantry: PantryItem[], days = EXPIRY_WARNING_DAYS, today = new Date()): PantryItem[] {
+  return pantry
+    .filter(item => {
+      const left = daysUntilExpiry(item, today)
+      return left !== null && left <= days
+    })
+    .sort((a, b) => a.expiresAt!.localeCompare(b.expiresAt!))
+}
+
+// Display order: expiry date first, then name
+export function sortPantry(pantry: PantryItem[]): PantryItem[] {
+  return [...pantry].sort((a, b) => {
+    if (a.expiresAt && b.expiresAt) return a.expiresAt.localeCompare(b.expiresAt)
+    if (a.expiresAt) return -1
+    if (b.expiresAt) return 1
+    return a.name.localeCompare(b.name, 'fr')
+  })
+}
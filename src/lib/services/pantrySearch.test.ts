@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { matchesIngredient, isStaple, parsePantryInput, searchByPantry } from './pantrySearch'
+import { makeRecipe, ingredients } from './__fixtures__/recipes'
+
+describe('matchesIngredient', () => {
+  it('should ignore articles, plurals, case and accents', () => {
+    expect(matchesIngredient('courgettes', 'Courgette')).toBe(true)
+    expect(matchesIngredient('poulet', 'des blancs de poulet')).toBe(true)
+    expect(matchesIngredient('poireau', 'poireaux')).toBe(true)
+    expect(matchesIngredient('creme', 'crème fraîche')).toBe(true)
+    expect(matchesIngredient('pomme de terre', 'pommes de terre nouvelles')).toBe(true)
+  })
+
+  it('should not match other ingredients', () => {
+    expect(matchesIngredient('riz', 'radis')).toBe(false)
+    expect(matchesIngredient('pomme de terre', 'pommes')).toBe(false)
+    expect(matchesIngredient('pommes', 'pommes de terre')).toBe(false)
+    expect(matchesIngredient('tomates', 'sauce tomate')).toBe(false)
+  })
+
+  it('should recognize staples', () => {
+    expect(isStaple('sel')).toBe(true)
+    expect(isStaple('huile d\'olive')).toBe(true)
+    expect(isStaple('poivre du moulin')).toBe(true)
+    expect(isStaple('sucre')).toBe(false)
+  })
+})
+
+describe('parsePantryInput', () => {
+  it('should split the list of ingredients', () => {
+    expect(parsePantryInput('j\'ai: poulet, courgettes et riz')).toEqual(['poulet', 'courgettes', 'riz'])
+    expect(parsePantryInput('  ')).toEqual([])
+  })
+})
+
+describe('searchByPantry', () => {
+  const recipes = [
+    makeRecipe('risotto', { ingredients: ingredients('riz', 'courgettes', 'parmesan', 'sel') }),
+    makeRecipe('poulet-riz', { ingredients: ingredients('poulet', 'riz', 'sel', 'poivre') }),
+    makeRecipe('soupe', { ingredients: ingredients('poireaux', 'pommes de terre') })
+  ]
+
+  it('should rank recipes by coverage and list missing ingredients', () => {
+    const matches = searchByPantry(recipes, ['poulet', 'courgettes', 'riz'], { ignoreStaples: true })
+
+    expect(matches.map(m => m.recipe.id)).toEqual(['poulet-riz', 'risotto'])
+    expect(matches[0].coverage).toBe(1)
+    expect(matches[1].missing.map(i => i.name)).toEqual(['parmesan'])
+  })
+
+  it('should count staples when not ignored', () => {
+    const matches = searchByPantry(recipes, ['poulet', 'riz'])
+
+    expect(matches[0].coverage).toBe(0.5)
+    expect(matches[0].missing.map(i => i.name)).toEqual(['sel', 'poivre'])
+  })
+
+  it('should not take a word of a longer name for the ingredient', () => {
+    const matches = searchByPantry(recipes, ['pommes', 'poireaux'])
+    expect(matches[0].available.map(i => i.name)).toEqual(['poireaux'])
+  })
+
+  it('should return nothing without ingredients', () => {
+    expect(searchByPantry(recipes, [])).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+// Pantry search
+// "J'ai : poulet, courgettes, riz": ranks recipes by the share of their ingredients
+// that are available, and lists what is missing
+
+import { normalizeIngredientName } from './shoppingGenerator'
+import { findFood } from './nutrition'
+import type { Ingredient, Recipe } from '../types'
+
+export interface PantryMatch<T extends Recipe = Recipe> {
+  recipe: T
+  coverage: number // 0-1, share of the (non staple) ingredients available
+  available: Ingredient[]
+  missing: Ingredient[]
+}
+
+// Always in the cupboard, can be left out of the count
+export const STAPLES = ['sel', 'poivre', 'huile', 'eau', 'salt', 'pepper', 'oil', 'water']
+
+// Small words of ingredient names: "blancs de poulet", "pommes de terre"
+const LINK_WORDS = new Set(['de', 'd', 'du', 'des', 'la', 'le', 'les', 'l', 'a', 'au', 'aux', 'en', 'of'])
+
+// Words of an ingredient name without accents, articles and plurals
+export function ingredientWords(name: string): string[] {
+  return normalizeIngredientName(name)
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !LINK_WORDS.has(word))
+    // courgettes -> courgette, poireaux -> poireau
+    .map(word => word.length > 3 ? word.replace(/[sx]$/, '') : word)
+}
+
+// "poulet" is in "blancs de poulet", "pomme de terre" is in "pommes de terre nouvelles".
+// Known foods are matched by their whole name, longest first (see nutrition.findFood):
+// "pommes" is not "pommes de terre"
+export function matchesIngredient(available: string, ingredientName: string): boolean {
+  const wanted = ingredientWords(available)
+  if (wanted.length === 0) return false
+  const words = new Set(ingredientWords(ingredientName))
+  if (!wanted.every(word => words.has(word))) return false
+
+  const wantedFood = findFood(available)
+  const ingredientFood = findFood(ingredientName)
+  return !wantedFood || !ingredientFood || wantedFood === ingredientFood
+}
+
+export function isStaple(ingredientName: string): boolean {
+  return STAPLES.some(staple => matchesIngredient(staple, ingredientName))
+}
+
+// "J'ai : poulet, courgettes et riz" -> ['poulet', 'courgettes', 'riz']
+export function parsePantryInput(text: string): string[] {
+  return text
+    .replace(/^\s*(j'ai|j’ai|i have)\s*:?/i, '')
+    .split(/[,;\n]|\s+et\s+|\s+and\s+/i)
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+// Recipes using at least one available ingredient, best coverage first
+export function searchByPantry<T extends Recipe>(
+  recipes: T[],
+  pantry: string[],
+  options: { ignoreStaples?: boolean } = {}
+): PantryMatch<T>[] {
+  if (pantry.length === 0) return []
+
+  const matches: PantryMatch<T>[] = []
+  for (const recipe of recipes) {
+    const counted = options.ignoreStaples
+      ? recipe.ingredients.filter(i => !isStaple(i.name))
+      : recipe.ingredients
+    if (counted.length === 0) continue
+
+    const available = counted.filter(i => pantry.some(item => matchesIngredient(item, i.name)))
+    if (available.length === 0) continue
+
+    const missing = counted.filter(i => !available.includes(i))
+    matches.push({ recipe, coverage: available.length / counted.length, available, missing })
+  }
+
+  // Same coverage: fewer things to buy first
+  return matches.sort((a, b) => b.coverage - a.coverage || a.missing.length - b.missing.length)
+}
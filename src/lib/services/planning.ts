@@ -0,0 +1,80 @@
+// Planning helpers
+// Date handling for week-based planning entries
+
+import { getPlanningForWeek } from './dataService'
+import type { MealSlot, PlanningEntry } from '../types'
+
+export const SLOT_LABELS: Record<MealSlot, string> = {
+  lunch: 'Midi',
+  dinner: 'Soir'
+}
+
+// Get Monday of the week for a given date
+export function getMonday(date: Date): Date {
+  const d = new Date(date)
+  const day = d.getDay()
+  const diff = d.getDate() - day + (day === 0 ? -6 : 1)
+  d.setDate(diff)
+  d.setHours(0, 0, 0, 0)
+  return d
+}
+
+// Key used to store entries (PlanningEntry.weekStart)
+export function formatWeekStart(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+// Day index inside the week (0 = lundi)
+export function getDayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7
+}
+
+// <input type="date"> values are local dates
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function parseDateInputValue(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date)
+  d.setDate(d.getDate() + days)
+  return d
+}
+
+export interface PlannedMeal {
+  entry: PlanningEntry
+  date: Date
+}
+
+// All planned meals between two dates (inclusive), in chronological order
+export async function getPlannedMeals(start: Date, end: Date): Promise<PlannedMeal[]> {
+  const days: Date[] = []
+  for (let d = new Date(start); d <= end; d = addDays(d, 1)) {
+    days.push(new Date(d))
+  }
+
+  const weekStarts = Array.from(new Set(days.map(d => formatWeekStart(getMonday(d)))))
+  const weeks = new Map(await Promise.all(
+    weekStarts.map(async ws => [ws, await getPlanningForWeek(ws)] as const)
+  ))
+
+  return days.flatMap(date => {
+    const entries = weeks.get(formatWeekStart(getMonday(date))) ?? []
+    return entries
+      .filter(e => e.day === getDayIndex(date))
+      .sort((a, b) => (a.slot === b.slot ? 0 : a.slot === 'lunch' ? -1 : 1))
+      .map(entry => ({ entry, date }))
+  })
+}
+
+// "lundi 14 midi"
+export function formatMealLabel(meal: PlannedMeal): string {
+  const day = meal.date.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric' })
+  return `${day} ${SLOT_LABELS[meal.entry.slot].toLowerCase()}`
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { extractFromHeadings, extractMicrodata, extractPluginMarkup } from './recipeExtractors'
+import { parseRecipeFromHtml } from './recipeParser'
+import microdataHtml from './__fixtures__/microdata-recipe.html?raw'
+import rdfaHtml from './__fixtures__/rdfa-recipe.html?raw'
+import wprmHtml from './__fixtures__/wprm-recipe.html?raw'
+import tastyHtml from './__fixtures__/tasty-recipe.html?raw'
+import headingsHtml from './__fixtures__/headings-recipe.html?raw'
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('extractMicrodata', () => {
+  it('should read schema.org microdata', () => {
+    const result = extractMicrodata(parse(microdataHtml))
+    expect(result?.extractor).toBe('microdata')
+    expect(result?.recipe).toEqual({
+      name: 'Blanquette de veau',
+      recipeYield: '6 personnes',
+      prepTime: 'PT30M',
+      cookTime: 'PT1H30M',
+      ingredients: [
+        { text: '1,2 kg de veau' },
+        { text: '2 carottes' },
+        { text: '250 g de champignons' },
+        { text: '20 cl de crème' }
+      ],
+      steps: [
+        'Couper la viande en morceaux.',
+        'Faire cuire 1 h 30 dans un bouillon avec les carottes.',
+        'Ajouter les champignons et la crème.'
+      ],
+      image: 'https://example.com/images/blanquette.jpg'
+    })
+  })
+
+  it('should ignore properties of nested items (author name)', () => {
+    expect(extractMicrodata(parse(microdataHtml))?.recipe.name).not.toBe('Mamie Jeanne')
+  })
+
+  it('should read RDFa', () => {
+    const result = extractMicrodata(parse(rdfaHtml))
+    expect(result?.recipe.name).toBe('Banana bread')
+    expect(result?.recipe.recipeYield).toBe('8 servings')
+    expect(result?.recipe.ingredients).toHaveLength(3)
+    expect(result?.recipe.steps).toEqual([
+      'Mash the bananas.',
+      'Mix with the flour and baking soda.',
+      'Bake for 1 hour at 175°C.'
+    ])
+  })
+
+  it('should return null without recipe markup', () => {
+    expect(extractMicrodata(parse(wprmHtml))).toBeNull()
+  })
+})
+
+describe('extractPluginMarkup', () => {
+  it('should read WP Recipe Maker markup', () => {
+    const result = extractPluginMarkup(parse(wprmHtml))
+    expect(result?.extractor).toBe('plugin')
+    expect(result?.recipe).toEqual({
+      name: 'Tarte aux pommes',
+      recipeYield: '6',
+      prepTime: 'PT0H20M',
+      cookTime: 'PT1H5M',
+      ingredients: [
+        { text: '250 g farine', group: 'Pâte' },
+        { text: '125 g beurre', group: 'Pâte' },
+        { text: '4 pommes', group: 'Garniture' }
+      ],
+      steps: ['Préparer la pâte.', 'Disposer les pommes en rosace.', 'Cuire 1 h 05 à 180°C.'],
+      image: 'https://example.com/tarte.jpg'
+    })
+  })
+
+  it('should read Tasty Recipes markup', () => {
+    const result = extractPluginMarkup(parse(tastyHtml))
+    expect(result?.recipe.name).toBe('Lemon curd')
+    expect(result?.recipe.prepTime).toBe('10 minutes')
+    expect(result?.recipe.ingredients).toEqual([
+      { text: '3 lemons', group: 'For the curd' },
+      { text: '100 g sugar', group: 'For the curd' },
+      { text: '2 eggs', group: 'For the curd' },
+      { text: '4 scones', group: 'To serve' }
+    ])
+    expect(result?.recipe.steps).toHaveLength(2)
+  })
+
+  it('should return null without plugin markup', () => {
+    expect(extractPluginMarkup(parse(headingsHtml))).toBeNull()
+  })
+})
+
+describe('extractFromHeadings', () => {
+  it('should read lists and paragraphs after the headings', () => {
+    const result = extractFromHeadings(parse(headingsHtml))
+    expect(result?.extractor).toBe('headings')
+    expect(result?.recipe).toEqual({
+      name: 'Ratatouille',
+      recipeYield: 'Ingrédients (pour 4 personnes)',
+      ingredients: [
+        { text: '2 courgettes' },
+        { text: '1 aubergine' },
+        { text: '3 tomates' },
+        { text: '2 c. à s. d\'huile d\'olive', group: 'Pour l\'assaisonnement' }
+      ],
+      steps: [
+        'Couper les légumes en dés.',
+        'Les faire revenir séparément dans l\'huile.',
+        'Mélanger et laisser mijoter 45 minutes.'
+      ],
+      image: 'https://example.com/ratatouille.jpg'
+    })
+  })
+
+  it('should return null without recipe headings', () => {
+    expect(extractFromHeadings(parse('<html><body><h1>Bonjour</h1><p>Rien ici</p></body></html>'))).toBeNull()
+  })
+})
+
+describe('parseRecipeFromHtml', () => {
+  it('should trust JSON-LD the most', () => {
+    const html = `<script type="application/ld+json">
+      {"@type": "Recipe", "name": "Crêpes", "recipeYield": "4", "prepTime": "PT10M",
+       "recipeIngredient": ["250 g farine"], "recipeInstructions": ["Mélanger."]}
+    </script>`
+    const recipe = parseRecipeFromHtml(html, 'https://example.com')
+    expect(recipe?.confidence).toEqual({ extractor: 'json-ld', score: 1, uncertain: [] })
+  })
+
+  it('should fall back to microdata', () => {
+    const recipe = parseRecipeFromHtml(microdataHtml, 'https://example.com')
+    expect(recipe?.title).toBe('Blanquette de veau')
+    expect(recipe?.servings).toBe(6)
+    expect(recipe?.prepTime).toBe(30)
+    expect(recipe?.cookTime).toBe(90)
+    expect(recipe?.ingredients[0]).toEqual({ quantity: 1.2, unit: 'kg', name: 'veau' })
+    expect(recipe?.confidence?.extractor).toBe('microdata')
+  })
+
+  it('should parse text durations and keep ingredient groups', () => {
+    const tasty = parseRecipeFromHtml(tastyHtml, 'https://example.com')
+    expect(tasty?.prepTime).toBe(10)
+    expect(tasty?.cookTime).toBe(15)
+
+    const wprm = parseRecipeFromHtml(wprmHtml, 'https://example.com')
+    expect(wprm?.cookTime).toBe(65)
+    expect(wprm?.ingredients[2]).toEqual({ quantity: 4, unit: '', name: 'pommes', group: 'Garniture' })
+  })
+
+  it('should flag guessed fields of heuristic results', () => {
+    const recipe = parseRecipeFromHtml(headingsHtml, 'https://example.com')
+    expect(recipe?.servings).toBe(4)
+    expect(recipe?.confidence?.extractor).toBe('headings')
+    expect(recipe?.confidence?.score).toBeLessThan(0.5)
+    expect(recipe?.confidence?.uncertain).toEqual(expect.arrayContaining(['times', 'ingredients', 'steps']))
+  })
+
+  it('should return null when nothing looks like a recipe', () => {
+    expect(parseRecipeFromHtml('<html><body><p>Bonjour</p></body></html>', 'https://example.com')).toBeNull()
+  })
+})
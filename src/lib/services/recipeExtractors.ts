@@ -0,0 +1,286 @@
+// Recipe extractors for pages without JSON-LD
+// Each extractor reads the raw recipe fields from the page; recipeParser.ts turns them
+// into a ParsedRecipe and scores how reliable the result is.
+
+export type ExtractorName = 'json-ld' | 'microdata' | 'plugin' | 'headings'
+
+// Fields as found in the page, before parsing
+export interface RawRecipe {
+  name?: string
+  recipeYield?: string | number | string[]
+  prepTime?: string // ISO 8601 (PT15M) or text ("15 min")
+  cookTime?: string
+  ingredients: { text: string; group?: string }[]
+  steps: string[]
+  image?: string
+}
+
+export interface ExtractedRecipe {
+  extractor: ExtractorName
+  recipe: RawRecipe
+}
+
+function cleanText(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim()
+}
+
+// Lowercase without accents, for heading matching
+function normalize(text: string): string {
+  return cleanText(text).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+// Lazy-loaded images keep the real URL in a data attribute
+function imageSource(img: Element | null): string | undefined {
+  if (!img) return undefined
+  return img.getAttribute('data-lazy-src') ?? img.getAttribute('data-src') ?? img.getAttribute('src') ?? undefined
+}
+
+function hasContent(recipe: RawRecipe): boolean {
+  return recipe.ingredients.length > 0 || recipe.steps.length > 0
+}
+
+// ============ MICRODATA / RDFA ============
+
+const RECIPE_SCOPE = '[itemtype*="schema.org/Recipe"], [typeof~="Recipe"], [typeof~="schema:Recipe"]'
+const ANY_SCOPE = '[itemscope], [typeof]'
+
+function propertySelector(names: string[]): string {
+  return names.flatMap(name => [`[itemprop~="${name}"]`, `[property~="${name}"]`, `[property~="schema:${name}"]`]).join(', ')
+}
+
+// Properties of the recipe itself, not of nested items (author, rating...)
+function findProperties(scope: Element, names: string[]): Element[] {
+  return Array.from(scope.querySelectorAll(propertySelector(names)))
+    .filter(el => el.parentElement?.closest(ANY_SCOPE) === scope)
+}
+
+function propertyValue(el: Element): string {
+  const value = el.getAttribute('content') ?? el.getAttribute('datetime')
+  if (value !== null) return cleanText(value)
+  if (el.tagName === 'IMG') return imageSource(el) ?? ''
+  if (el.tagName === 'A' || el.tagName === 'LINK') return el.getAttribute('href') ?? ''
+  return cleanText(el.textContent)
+}
+
+function firstValue(scope: Element, names: string[]): string | undefined {
+  const el = findProperties(scope, names)[0]
+  return el ? propertyValue(el) || undefined : undefined
+}
+
+// Instructions: one element per step, a list, HowToStep items or a block of text
+function microdataSteps(scope: Element): string[] {
+  return findProperties(scope, ['recipeInstructions']).flatMap(el => {
+    const items = el.querySelectorAll('li')
+    if (items.length > 0) return Array.from(items, li => cleanText(li.textContent))
+
+    const text = el.matches(ANY_SCOPE) ? el.querySelector(propertySelector(['text'])) ?? el : el
+    const paragraphs = text.querySelectorAll('p')
+    if (paragraphs.length > 0) return Array.from(paragraphs, p => cleanText(p.textContent))
+
+    return [propertyValue(text)]
+  }).filter(step => step)
+}
+
+function microdataImage(scope: Element): string | undefined {
+  const el = findProperties(scope, ['image'])[0]
+  if (!el) return undefined
+  // ImageObject: the URL is a property of the nested item
+  if (el.matches(ANY_SCOPE)) {
+    const url = el.querySelector(propertySelector(['url', 'contentUrl']))
+    return url ? propertyValue(url) : imageSource(el.querySelector('img'))
+  }
+  return propertyValue(el) || undefined
+}
+
+// schema.org/Recipe as microdata (itemprop) or RDFa (property)
+export function extractMicrodata(doc: Document): ExtractedRecipe | null {
+  const scope = doc.querySelector(RECIPE_SCOPE)
+  if (!scope) return null
+
+  const recipe: RawRecipe = {
+    name: firstValue(scope, ['name']),
+    recipeYield: firstValue(scope, ['recipeYield', 'yield']),
+    prepTime: firstValue(scope, ['prepTime']),
+    cookTime: firstValue(scope, ['cookTime']),
+    ingredients: findProperties(scope, ['recipeIngredient', 'ingredients'])
+      .map(el => ({ text: propertyValue(el) }))
+      .filter(i => i.text),
+    steps: microdataSteps(scope),
+    image: microdataImage(scope)
+  }
+
+  return hasContent(recipe) ? { extractor: 'microdata', recipe } : null
+}
+
+// ============ RECIPE PLUGINS ============
+
+// WP Recipe Maker: times are split in hours/minutes elements
+function wprmTime(root: Element, name: string): string | undefined {
+  const hours = cleanText(root.querySelector(`.wprm-recipe-${name}-hours`)?.textContent)
+  const minutes = cleanText(root.querySelector(`.wprm-recipe-${name}-minutes`)?.textContent)
+  const h = parseInt(hours) || 0
+  const m = parseInt(minutes) || 0
+  return h || m ? `PT${h}H${m}M` : undefined
+}
+
+function extractWprm(doc: Document): RawRecipe | null {
+  const root = doc.querySelector('.wprm-recipe-container, .wprm-recipe')
+  if (!root) return null
+
+  const ingredients: RawRecipe['ingredients'] = []
+  for (const group of Array.from(root.querySelectorAll('.wprm-recipe-ingredient-group'))) {
+    const groupName = cleanText(group.querySelector('.wprm-recipe-group-name')?.textContent).replace(/\s*:$/, '')
+    for (const item of Array.from(group.querySelectorAll('.wprm-recipe-ingredient'))) {
+      // Notes are left out ("(bien mûres)")
+      const text = ['amount', 'unit', 'name']
+        .map(part => cleanText(item.querySelector(`.wprm-recipe-ingredient-${part}`)?.textContent))
+        .filter(part => part)
+        .join(' ')
+      if (text) ingredients.push(groupName ? { text, group: groupName } : { text })
+    }
+  }
+
+  return {
+    name: cleanText(root.querySelector('.wprm-recipe-name')?.textContent) || undefined,
+    recipeYield: cleanText(root.querySelector('.wprm-recipe-servings')?.textContent) || undefined,
+    prepTime: wprmTime(root, 'prep_time'),
+    cookTime: wprmTime(root, 'cook_time'),
+    ingredients,
+    steps: Array.from(root.querySelectorAll('.wprm-recipe-instruction-text'), el => cleanText(el.textContent))
+      .filter(step => step),
+    image: imageSource(root.querySelector('.wprm-recipe-image img'))
+  }
+}
+
+function extractTasty(doc: Document): RawRecipe | null {
+  const root = doc.querySelector('.tasty-recipes')
+  if (!root) return null
+
+  // Group headings are siblings of the lists
+  const ingredients: RawRecipe['ingredients'] = []
+  const body = root.querySelector('.tasty-recipes-ingredients-body') ?? root.querySelector('.tasty-recipes-ingredients')
+  let group: string | undefined
+  for (const el of Array.from(body?.children ?? [])) {
+    if (/^H\d$/.test(el.tagName) || (el.tagName === 'P' && el.querySelector('strong'))) {
+      group = cleanText(el.textContent).replace(/\s*:$/, '') || undefined
+    } else {
+      for (const li of Array.from(el.querySelectorAll('li'))) {
+        const text = cleanText(li.textContent)
+        if (text) ingredients.push(group ? { text, group } : { text })
+      }
+    }
+  }
+
+  const instructions = root.querySelector('.tasty-recipes-instructions-body') ?? root.querySelector('.tasty-recipes-instructions')
+  const items = Array.from(instructions?.querySelectorAll('li') ?? [])
+  const stepElements: Element[] = items.length > 0 ? items : Array.from(instructions?.querySelectorAll('p') ?? [])
+
+  const text = (selector: string) => cleanText(root.querySelector(selector)?.textContent) || undefined
+
+  return {
+    name: text('.tasty-recipes-title'),
+    recipeYield: text('.tasty-recipes-yield'),
+    prepTime: text('.tasty-recipes-prep-time'),
+    cookTime: text('.tasty-recipes-cook-time'),
+    ingredients,
+    steps: stepElements.map(el => cleanText(el.textContent)).filter(step => step),
+    image: imageSource(root.querySelector('.tasty-recipes-image img'))
+  }
+}
+
+// Markup of common WordPress recipe plugins (WP Recipe Maker, Tasty Recipes)
+export function extractPluginMarkup(doc: Document): ExtractedRecipe | null {
+  for (const extract of [extractWprm, extractTasty]) {
+    const recipe = extract(doc)
+    if (recipe && hasContent(recipe)) return { extractor: 'plugin', recipe }
+  }
+  return null
+}
+
+// ============ HEADINGS ============
+
+type Section = 'ingredients' | 'steps'
+
+const HEADING_TAGS = 'h1, h2, h3, h4, h5, h6'
+
+function classifyHeading(text: string): Section | null {
+  const normalized = normalize(text).replace(/[:.\s]+$/, '')
+  if (normalized.length > 50) return null
+  if (/^(les\s+)?ingredients?\b/.test(normalized)) return 'ingredients'
+  if (/^(preparation|etapes?|instructions?|deroulement|method|directions?|steps?)\b/.test(normalized)) return 'steps'
+  return null
+}
+
+// Heading element, or bold paragraph used as a heading
+function isHeading(el: Element): boolean {
+  if (el.matches(HEADING_TAGS)) return true
+  return el.tagName === 'P' && el.children.length === 1 && el.firstElementChild!.matches('strong, b') &&
+    cleanText(el.firstElementChild!.textContent) === cleanText(el.textContent)
+}
+
+// Blocks following a heading, until the next heading of the same or a higher level
+function sectionBlocks(heading: Element): Element[] {
+  const blocks: Element[] = []
+  const level = heading.matches(HEADING_TAGS) ? parseInt(heading.tagName[1]) : 7
+  let el = heading.nextElementSibling
+
+  while (el && blocks.length < 50) {
+    if (isHeading(el)) {
+      const elLevel = el.matches(HEADING_TAGS) ? parseInt(el.tagName[1]) : 7
+      if (elLevel <= level || classifyHeading(el.textContent ?? '')) break
+    }
+    blocks.push(el)
+    el = el.nextElementSibling
+  }
+  return blocks
+}
+
+// Lists after the "Ingrédients" heading, sub-headings become groups
+function headingIngredients(heading: Element): RawRecipe['ingredients'] {
+  const ingredients: RawRecipe['ingredients'] = []
+  let group: string | undefined
+
+  for (const block of sectionBlocks(heading)) {
+    if (isHeading(block)) {
+      group = cleanText(block.textContent).replace(/\s*:$/, '') || undefined
+      continue
+    }
+    for (const li of Array.from(block.matches('li') ? [block] : block.querySelectorAll('li'))) {
+      const text = cleanText(li.textContent)
+      if (text) ingredients.push(group ? { text, group } : { text })
+    }
+  }
+  return ingredients
+}
+
+// List items after the "Préparation" heading, or its paragraphs
+function headingSteps(heading: Element): string[] {
+  const blocks = sectionBlocks(heading).filter(block => !isHeading(block))
+  const items = blocks.flatMap(block => Array.from(block.querySelectorAll('li')))
+  const elements = items.length > 0 ? items : blocks.filter(block => block.tagName === 'P')
+  return elements.map(el => cleanText(el.textContent)).filter(step => step)
+}
+
+// Plain lists following "Ingrédients" / "Préparation" headings (older blogs)
+export function extractFromHeadings(doc: Document): ExtractedRecipe | null {
+  const headings = Array.from(doc.body?.querySelectorAll(`${HEADING_TAGS}, p`) ?? []).filter(isHeading)
+  const ingredientsHeading = headings.find(h => classifyHeading(h.textContent ?? '') === 'ingredients')
+  const stepsHeading = headings.find(h => classifyHeading(h.textContent ?? '') === 'steps')
+  if (!ingredientsHeading && !stepsHeading) return null
+
+  const meta = (property: string) =>
+    doc.querySelector(`meta[property="${property}"]`)?.getAttribute('content') ?? undefined
+
+  // "Ingrédients (pour 4 personnes)"
+  const servingsText = ingredientsHeading?.textContent ?? ''
+
+  const recipe: RawRecipe = {
+    name: cleanText(doc.querySelector('h1')?.textContent) || meta('og:title'),
+    recipeYield: /\d/.test(servingsText) ? cleanText(servingsText) : undefined,
+    ingredients: ingredientsHeading ? headingIngredients(ingredientsHeading) : [],
+    steps: stepsHeading ? headingSteps(stepsHeading) : [],
+    image: meta('og:image')
+  }
+
+  return hasContent(recipe) ? { extractor: 'headings', recipe } : null
+}
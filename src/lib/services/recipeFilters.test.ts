@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  filterRecipes,
+  sortRecipes,
+  getSourceDomain,
+  serializeListState,
+  parseListState,
+  DEFAULT_FILTERS
+} from './recipeFilters'
+import { makeRecipeWithMeta } from './__fixtures__/recipes'
+import type { RecipeWithMeta } from '../types'
+
+// Cooked on these dates, with this rating
+function makeRecipe(id: string, overrides: Partial<RecipeWithMeta> = {}, history: string[] = [], rating?: number): RecipeWithMeta {
+  const recipe = makeRecipeWithMeta(id, overrides)
+  return { ...recipe, metadata: { ...recipe.metadata, history: history.map(date => ({ date })), rating } }
+}
+
+const now = new Date('2024-06-01T12:00:00.000Z')
+
+const recipes = [
+  makeRecipe('quiche', { prepTime: 15, cookTime: 30, createdAt: '2024-02-01T00:00:00.000Z', source: 'https://www.marmiton.org/quiche' }, ['2024-05-25T19:00:00.000Z'], 4),
+  makeRecipe('salade', { prepTime: 10, image: 'asset:abc', createdAt: '2024-03-01T00:00:00.000Z' }, [], 5),
+  makeRecipe('gratin', { cookTime: 60 }, ['2024-01-10T19:00:00.000Z', '2024-03-02T19:00:00.000Z']),
+  makeRecipe('soupe')
+]
+
+function ids(list: RecipeWithMeta[]): string[] {
+  return list.map(r => r.id)
+}
+
+describe('filterRecipes', () => {
+  it('should filter by maximum total time, leaving out unknown times', () => {
+    expect(ids(filterRecipes(recipes, { ...DEFAULT_FILTERS, maxTime: 45 }, now))).toEqual(['quiche', 'salade'])
+  })
+
+  it('should filter by history', () => {
+    expect(ids(filterRecipes(recipes, { ...DEFAULT_FILTERS, neverMade: true }, now))).toEqual(['salade', 'soupe'])
+    expect(ids(filterRecipes(recipes, { ...DEFAULT_FILTERS, notMadeWeeks: 4 }, now))).toEqual(['salade', 'gratin', 'soupe'])
+  })
+
+  it('should filter by image and source website', () => {
+    expect(getSourceDomain(recipes[0])).toBe('marmiton.org')
+    expect(ids(filterRecipes(recipes, { ...DEFAULT_FILTERS, hasImage: true }, now))).toEqual(['salade'])
+    expect(ids(filterRecipes(recipes, { ...DEFAULT_FILTERS, domain: 'marmiton.org' }, now))).toEqual(['quiche'])
+  })
+})
+
+describe('sortRecipes', () => {
+  it('should sort with missing values last', () => {
+    expect(ids(sortRecipes(recipes, 'rating'))).toEqual(['salade', 'quiche', 'gratin', 'soupe'])
+    expect(ids(sortRecipes(recipes, 'times-made'))).toEqual(['gratin', 'quiche', 'salade', 'soupe'])
+    expect(ids(sortRecipes(recipes, 'last-made'))).toEqual(['quiche', 'gratin', 'salade', 'soupe'])
+    expect(ids(sortRecipes(recipes, 'total-time'))).toEqual(['salade', 'quiche', 'gratin', 'soupe'])
+    expect(ids(sortRecipes(recipes, 'created'))).toEqual(['salade', 'quiche', 'gratin', 'soupe'])
+  })
+
+  it('should keep the order by default', () => {
+    expect(ids(sortRecipes(recipes, 'default'))).toEqual(ids(recipes))
+  })
+})
+
+describe('list state route', () => {
+  it('should round-trip filters and sort', () => {
+    const state = {
+      filters: { ...DEFAULT_FILTERS, search: 'tarte aux pommes', status: 'validated' as const, tags: ['été', 'rapide'], maxTime: 30, notMadeWeeks: 8, hasImage: true },
+      sort: 'rating' as const,
+      groupVariants: true
+    }
+    const query = serializeListState(state)
+
+    expect(query).toBe('q=tarte+aux+pommes&status=validated&tag=%C3%A9t%C3%A9&tag=rapide&time=30&weeks=8&image=1&sort=rating&group=1')
+    expect(parseListState(query)).toEqual(state)
+  })
+
+  it('should ignore invalid values', () => {
+    expect(parseListState('status=done&rating=9&time=-5&sort=random')).toEqual({ filters: DEFAULT_FILTERS, sort: 'default', groupVariants: false })
+    expect(serializeListState({ filters: DEFAULT_FILTERS, sort: 'default', groupVariants: false })).toBe('')
+  })
+})
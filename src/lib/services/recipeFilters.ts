@@ -0,0 +1,166 @@
+// Recipe list filters and sorting
+// Also (de)serialized as the query of the list route ("#/recipes?status=validated&sort=rating")
+// so a filtered view can be bookmarked
+
+import type { RecipeStatus, RecipeWithMeta } from '../types'
+
+export interface RecipeFilters {
+  search: string
+  status: RecipeStatus | null
+  tags: string[]
+  minRating: number | null
+  maxTime: number | null // minutes, prepTime + cookTime
+  neverMade: boolean
+  notMadeWeeks: number | null
+  hasImage: boolean
+  domain: string | null // source website, without "www."
+}
+
+export type RecipeSort = 'default' | 'rating' | 'times-made' | 'last-made' | 'created' | 'total-time' | 'title'
+
+export interface ListState {
+  filters: RecipeFilters
+  sort: RecipeSort
+  groupVariants: boolean // variants shown under their parent recipe
+}
+
+export const DEFAULT_FILTERS: RecipeFilters = {
+  search: '',
+  status: null,
+  tags: [],
+  minRating: null,
+  maxTime: null,
+  neverMade: false,
+  notMadeWeeks: null,
+  hasImage: false,
+  domain: null
+}
+
+const STATUSES: RecipeStatus[] = ['to-test', 'testing', 'validated', 'archived']
+const SORTS: RecipeSort[] = ['default', 'rating', 'times-made', 'last-made', 'created', 'total-time', 'title']
+
+const WEEK = 7 * 24 * 60 * 60 * 1000
+
+// ============ RECIPE INFO ============
+
+export function getTotalTime(recipe: RecipeWithMeta): number {
+  return (recipe.prepTime || 0) + (recipe.cookTime || 0)
+}
+
+// Date of the last history entry (ISO), null if never made
+export function getLastMade(recipe: RecipeWithMeta): string | null {
+  let last: string | null = null
+  for (const entry of recipe.metadata.history) {
+    if (!last || entry.date > last) last = entry.date
+  }
+  return last
+}
+
+export function getSourceDomain(recipe: RecipeWithMeta): string | null {
+  if (!recipe.source) return null
+  try {
+    return new URL(recipe.source).hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+// ============ FILTER & SORT ============
+
+// Everything but the text search, done by the search index
+export function filterRecipes(recipes: RecipeWithMeta[], filters: RecipeFilters, now = new Date()): RecipeWithMeta[] {
+  const notMadeSince = filters.notMadeWeeks !== null
+    ? new Date(now.getTime() - filters.notMadeWeeks * WEEK).toISOString()
+    : null
+
+  return recipes.filter(r => {
+    if (filters.status && r.metadata.status !== filters.status) return false
+    if (!filters.tags.every(tag => r.metadata.tags.includes(tag))) return false
+    if (filters.minRating !== null && (r.metadata.rating === undefined || r.metadata.rating < filters.minRating)) return false
+    // Recipes without times are left out: they may take longer
+    if (filters.maxTime !== null && (getTotalTime(r) === 0 || getTotalTime(r) > filters.maxTime)) return false
+    if (filters.neverMade && r.metadata.history.length > 0) return false
+    if (notMadeSince) {
+      const lastMade = getLastMade(r)
+      if (lastMade && lastMade >= notMadeSince) return false
+    }
+    if (filters.hasImage && !r.image) return false
+    if (filters.domain && getSourceDomain(r) !== filters.domain) return false
+    return true
+  })
+}
+
+// Missing values (no rating, no time...) always come last
+function compareOptional<T>(a: T | null, b: T | null, compare: (a: T, b: T) => number): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0)
+  return compare(a, b)
+}
+
+// 'default' keeps the current order (relevance when searching, else creation order)
+export function sortRecipes(recipes: RecipeWithMeta[], sort: RecipeSort): RecipeWithMeta[] {
+  const sorted = [...recipes]
+  switch (sort) {
+    case 'rating':
+      return sorted.sort((a, b) => compareOptional(a.metadata.rating ?? null, b.metadata.rating ?? null, (x, y) => y - x))
+    case 'times-made':
+      return sorted.sort((a, b) => b.metadata.history.length - a.metadata.history.length)
+    case 'last-made':
+      return sorted.sort((a, b) => compareOptional(getLastMade(a), getLastMade(b), (x, y) => y.localeCompare(x)))
+    case 'created':
+      return sorted.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    case 'total-time':
+      return sorted.sort((a, b) => compareOptional(getTotalTime(a) || null, getTotalTime(b) || null, (x, y) => x - y))
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, 'fr'))
+    default:
+      return sorted
+  }
+}
+
+// ============ ROUTE ============
+
+export function serializeListState({ filters, sort, groupVariants }: ListState): string {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set('q', filters.search.trim())
+  if (filters.status) params.set('status', filters.status)
+  for (const tag of filters.tags) params.append('tag', tag)
+  if (filters.minRating !== null) params.set('rating', String(filters.minRating))
+  if (filters.maxTime !== null) params.set('time', String(filters.maxTime))
+  if (filters.neverMade) params.set('never', '1')
+  if (filters.notMadeWeeks !== null) params.set('weeks', String(filters.notMadeWeeks))
+  if (filters.hasImage) params.set('image', '1')
+  if (filters.domain) params.set('source', filters.domain)
+  if (sort !== 'default') params.set('sort', sort)
+  if (groupVariants) params.set('group', '1')
+  return params.toString()
+}
+
+function parsePositiveInt(value: string | null): number | null {
+  if (!value) return null
+  const n = parseInt(value, 10)
+  return n > 0 ? n : null
+}
+
+// Invalid values are ignored
+export function parseListState(query: string): ListState {
+  const params = new URLSearchParams(query)
+  const status = params.get('status') as RecipeStatus | null
+  const rating = parsePositiveInt(params.get('rating'))
+  const sort = params.get('sort') as RecipeSort | null
+
+  return {
+    filters: {
+      search: params.get('q') ?? '',
+      status: status && STATUSES.includes(status) ? status : null,
+      tags: params.getAll('tag').filter(Boolean),
+      minRating: rating !== null && rating <= 5 ? rating : null,
+      maxTime: parsePositiveInt(params.get('time')),
+      neverMade: params.get('never') === '1',
+      notMadeWeeks: parsePositiveInt(params.get('weeks')),
+      hasImage: params.get('image') === '1',
+      domain: params.get('source') || null
+    },
+    sort: sort && SORTS.includes(sort) ? sort : 'default',
+    groupVariants: params.get('group') === '1'
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { recipeToMarkdown, parseRecipeMarkdown, recipeFileName } from './recipeMarkdown'
+import type { Recipe, RecipeMetadata } from '../types'
+
+const recipe: Recipe = {
+  id: '3f1c2a4e-8b7d-4c1e-9a2b-1234567890ab',
+  title: 'Tarte aux pommes "maison"',
+  source: 'https://example.com/tarte',
+  prepTime: 20,
+  cookTime: 35,
+  servings: 6,
+  ingredients: [
+    { name: 'pommes', quantity: 4, unit: '' },
+    { name: 'sucre', quantity: 0.5, unit: 'c. à soupe' },
+    { name: 'Crème pâtissière', quantity: 6, unit: 'portions', recipeId: 'creme-id' },
+    { name: 'farine', quantity: 200, unit: 'g', group: 'Pour la pâte' },
+    { name: 'beurre', quantity: 100, unit: 'g', group: 'Pour la pâte' }
+  ],
+  steps: [
+    'Préchauffer le four à 180°C.',
+    'Étaler la pâte.\nPiquer le fond avec une fourchette.',
+    'Cuire 35 min.'
+  ],
+  stepIngredients: [null, [3, 4], null],
+  notes: 'Meilleure tiède.\n\nAvec une boule de glace vanille.',
+  createdAt: '2024-01-10T10:00:00.000Z',
+  updatedAt: '2024-02-01T18:30:00.000Z'
+}
+
+const metadata: RecipeMetadata = {
+  id: recipe.id,
+  status: 'validated',
+  rating: 4,
+  tags: ['dessert', 'automne'],
+  history: [
+    { date: '2024-01-12T19:00:00.000Z', notes: 'Un peu trop sucrée: réduire' },
+    { date: '2024-02-01T19:00:00.000Z' }
+  ]
+}
+
+describe('recipeToMarkdown', () => {
+  it('should write YAML front-matter with recipe and metadata fields', () => {
+    const md = recipeToMarkdown(recipe, metadata)
+    expect(md.startsWith('---\n')).toBe(true)
+    expect(md).toContain('title: "Tarte aux pommes \\"maison\\""')
+    expect(md).toContain('servings: 6')
+    expect(md).toContain('status: validated')
+    expect(md).toContain('rating: 4')
+    expect(md).toContain('  - "dessert"')
+  })
+
+  it('should render ingredient groups as sub-headings', () => {
+    const md = recipeToMarkdown(recipe, metadata)
+    expect(md).toContain('- **4** pommes')
+    expect(md).toContain('- **6 portions** [Crème pâtissière](recipe:creme-id)')
+    expect(md).toContain('### Pour la pâte\n\n- **200 g** farine')
+  })
+
+  it('should render steps as a numbered list', () => {
+    const md = recipeToMarkdown(recipe, metadata)
+    expect(md).toContain('1. Préchauffer le four à 180°C.')
+    expect(md).toContain('2. Étaler la pâte.\n   Piquer le fond avec une fourchette.')
+    expect(md).toContain('3. Cuire 35 min.')
+  })
+})
+
+describe('parseRecipeMarkdown', () => {
+  it('should round-trip a recipe and its metadata', () => {
+    const parsed = parseRecipeMarkdown(recipeToMarkdown(recipe, metadata))
+    expect(parsed.recipe).toEqual(recipe)
+    expect(parsed.metadata).toEqual(metadata)
+  })
+
+  it('should keep step links on the same ingredients when groups are reordered', () => {
+    const grouped: Recipe = {
+      ...recipe,
+      ingredients: [
+        { name: 'farine', quantity: 200, unit: 'g', group: 'Pâte' },
+        { name: 'sucre', quantity: 50, unit: 'g' }
+      ],
+      steps: ['Ajouter le sucre.'],
+      stepIngredients: [[1]]
+    }
+    const parsed = parseRecipeMarkdown(recipeToMarkdown(grouped, metadata)).recipe
+    expect(parsed.ingredients.map(i => i.name)).toEqual(['sucre', 'farine'])
+    expect(parsed.stepIngredients).toEqual([[0]])
+  })
+
+  it('should round-trip a minimal recipe without optional fields', () => {
+    const minimal: Recipe = {
+      id: 'abc',
+      title: 'Oeuf dur',
+      servings: 1,
+      ingredients: [{ name: 'oeuf', quantity: 1, unit: '' }],
+      steps: ['Cuire 9 min.'],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    }
+    const meta: RecipeMetadata = { id: 'abc', status: 'to-test', tags: [], history: [] }
+    const parsed = parseRecipeMarkdown(recipeToMarkdown(minimal, meta))
+    expect(parsed.recipe).toEqual(minimal)
+    expect(parsed.metadata).toEqual(meta)
+  })
+
+  it('should keep headings written inside the notes', () => {
+    const withHeadings: Recipe = { ...recipe, notes: 'Meilleure tiède.\n\n## Variante\n\nRemplacer les pommes par des poires.' }
+    const parsed = parseRecipeMarkdown(recipeToMarkdown(withHeadings, metadata))
+    expect(parsed.recipe.notes).toBe(withHeadings.notes)
+  })
+
+  it('should keep a zero quantity', () => {
+    const withZero: Recipe = { ...recipe, ingredients: [{ name: 'sel', quantity: 0, unit: '' }], stepIngredients: undefined }
+    const parsed = parseRecipeMarkdown(recipeToMarkdown(withZero, metadata))
+    expect(parsed.recipe.ingredients).toEqual(withZero.ingredients)
+  })
+
+  it('should parse a hand-written file without front-matter', () => {
+    const md = [
+      '# Vinaigrette',
+      '',
+      '## Ingredients',
+      '- 3 c. à s. huile d\'olive',
+      '- 1 c. à c. moutarde',
+      '',
+      '## Étapes',
+      '1. Mélanger la moutarde et le vinaigre.',
+      '2. Ajouter l\'huile en fouettant.'
+    ].join('\n')
+
+    const { recipe: parsed, metadata: meta } = parseRecipeMarkdown(md)
+    expect(parsed.title).toBe('Vinaigrette')
+    expect(parsed.ingredients[0]).toEqual({ name: 'huile d\'olive', quantity: 3, unit: 'c. à soupe' })
+    expect(parsed.steps).toHaveLength(2)
+    expect(parsed.id).toBeTruthy()
+    expect(meta.status).toBe('to-test')
+  })
+
+  it('should accept flow lists and bare scalars in front-matter', () => {
+    const md = '---\ntitle: Crêpes\nservings: 4\ntags: [dessert, rapide]\nstatus: unknown\n---\n'
+    const { recipe: parsed, metadata: meta } = parseRecipeMarkdown(md)
+    expect(parsed.title).toBe('Crêpes')
+    expect(meta.tags).toEqual(['dessert', 'rapide'])
+    expect(meta.status).toBe('to-test')
+  })
+
+  it('should handle Windows line endings', () => {
+    const md = recipeToMarkdown(recipe, metadata).replace(/\n/g, '\r\n')
+    expect(parseRecipeMarkdown(md).recipe.steps).toEqual(recipe.steps)
+  })
+
+  it('should throw when no title can be found', () => {
+    expect(() => parseRecipeMarkdown('## Ingrédients\n- sel')).toThrow()
+  })
+})
+
+describe('recipeFileName', () => {
+  it('should slugify the title without accents', () => {
+    expect(recipeFileName({ title: 'Crème brûlée à l\'orange' })).toBe('creme-brulee-a-l-orange.md')
+  })
+
+  it('should fall back to a default name', () => {
+    expect(recipeFileName({ title: '!!!' })).toBe('recette.md')
+  })
+})
@@ -0,0 +1,417 @@
+// Markdown + YAML front-matter serialization of recipes
+// One human-readable .md file per recipe, readable back without loss
+
+import { v4 as uuidv4 } from 'uuid'
+import type { Ingredient, HistoryEntry, Recipe, RecipeMetadata, RecipeStatus } from '../types'
+import { parseIngredientString } from './recipeParser'
+
+export interface MarkdownRecipe {
+  recipe: Recipe
+  metadata: RecipeMetadata
+}
+
+type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue }
+type FrontMatter = Record<string, FrontMatterValue>
+
+const STATUSES: RecipeStatus[] = ['to-test', 'testing', 'validated', 'archived']
+
+// Section headings (the parser also accepts common variants, see classifyHeading)
+const HEADING_INGREDIENTS = 'Ingrédients'
+const HEADING_STEPS = 'Préparation'
+const HEADING_NOTES = 'Notes'
+
+// ============ SERIALIZER ============
+
+// Strings are always double-quoted: JSON strings are valid YAML scalars
+function yamlScalar(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value)
+}
+
+function serializeFrontMatter(recipe: Recipe, metadata: RecipeMetadata, order: number[]): string {
+  const lines: string[] = []
+  const add = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') lines.push(`${key}: ${yamlScalar(value)}`)
+  }
+
+  add('id', recipe.id)
+  add('title', recipe.title)
+  add('source', recipe.source)
+  add('parentId', recipe.parentId)
+  add('servings', recipe.servings)
+  add('prepTime', recipe.prepTime)
+  add('cookTime', recipe.cookTime)
+  lines.push(`status: ${metadata.status}`)
+  add('rating', metadata.rating)
+
+  if (metadata.tags.length > 0) {
+    lines.push('tags:')
+    metadata.tags.forEach(tag => lines.push(`  - ${yamlScalar(tag)}`))
+  } else {
+    lines.push('tags: []')
+  }
+
+  if (metadata.history.length > 0) {
+    lines.push('history:')
+    for (const entry of metadata.history) {
+      lines.push(`  - date: ${yamlScalar(entry.date)}`)
+      if (entry.notes) lines.push(`    notes: ${yamlScalar(entry.notes)}`)
+    }
+  }
+
+  add('image', recipe.image)
+  // Ingredients chosen by hand for each step, as JSON ("[[0,2],null]"), indexes in the written order
+  if (recipe.stepIngredients) {
+    const position = new Map(order.map((index, i) => [index, i]))
+    const links = recipe.stepIngredients.map(indexes =>
+      indexes ? indexes.filter(index => position.has(index)).map(index => position.get(index)!) : null
+    )
+    add('stepIngredients', JSON.stringify(links))
+  }
+  add('createdAt', recipe.createdAt)
+  add('updatedAt', recipe.updatedAt)
+
+  return ['---', ...lines, '---'].join('\n')
+}
+
+function formatIngredient(ingredient: Ingredient): string {
+  const amount = ingredient.unit ? `${ingredient.quantity} ${ingredient.unit}` : `${ingredient.quantity}`
+  // Sub-recipe as a link: "- **1 pâte** [Pâte brisée](recipe:<id>)"
+  const name = ingredient.recipeId ? `[${ingredient.name}](recipe:${ingredient.recipeId})` : ingredient.name
+  return `- **${amount}** ${name}`
+}
+
+// Indexes of the ingredients in the written order: ungrouped ones first, then each group
+// in order of first appearance
+function ingredientOrder(ingredients: Ingredient[]): number[] {
+  const ungrouped: number[] = []
+  const groups = new Map<string, number[]>()
+
+  ingredients.forEach((ingredient, index) => {
+    if (!ingredient.group) {
+      ungrouped.push(index)
+      return
+    }
+    if (!groups.has(ingredient.group)) groups.set(ingredient.group, [])
+    groups.get(ingredient.group)!.push(index)
+  })
+
+  return [...ungrouped, ...[...groups.values()].flat()]
+}
+
+function serializeIngredients(ingredients: Ingredient[], order: number[]): string[] {
+  const lines: string[] = []
+  let group: string | undefined
+
+  for (const index of order) {
+    const ingredient = ingredients[index]
+    if (ingredient.group !== group) {
+      group = ingredient.group
+      if (lines.length > 0) lines.push('')
+      lines.push(`### ${group}`, '')
+    }
+    lines.push(formatIngredient(ingredient))
+  }
+
+  return lines
+}
+
+// Multi-line steps keep their extra lines indented under the list item
+function serializeSteps(steps: string[]): string[] {
+  return steps.map((step, i) => {
+    const [first, ...rest] = step.split('\n')
+    return [`${i + 1}. ${first}`, ...rest.map(line => `   ${line}`)].join('\n')
+  })
+}
+
+export function recipeToMarkdown(recipe: Recipe, metadata: RecipeMetadata): string {
+  const order = ingredientOrder(recipe.ingredients)
+  const parts = [
+    serializeFrontMatter(recipe, metadata, order),
+    '',
+    `# ${recipe.title}`,
+    '',
+    `## ${HEADING_INGREDIENTS}`,
+    '',
+    ...serializeIngredients(recipe.ingredients, order),
+    '',
+    `## ${HEADING_STEPS}`,
+    '',
+    ...serializeSteps(recipe.steps)
+  ]
+
+  if (recipe.notes) {
+    parts.push('', `## ${HEADING_NOTES}`, '', recipe.notes)
+  }
+
+  return parts.join('\n') + '\n'
+}
+
+// File name derived from the title: "Crème brûlée" -> "creme-brulee.md"
+export function recipeFileName(recipe: Pick<Recipe, 'title'>): string {
+  const slug = recipe.title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'recette'}.md`
+}
+
+// ============ PARSER ============
+
+function parseYamlScalar(raw: string): FrontMatterValue {
+  const value = raw.trim()
+  if (value === '') return ''
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  if (value === '[]') return []
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(v => parseYamlScalar(v)).filter(v => v !== '')
+  }
+  if (value === 'true' || value === 'false') return value === 'true'
+  if (value === 'null' || value === '~') return null
+  if (/^-?\d+(\.\d+)?$/.test(value)) return parseFloat(value)
+  return value
+}
+
+const KEY_VALUE = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/
+
+// Block list under a key: scalars ("- a") or mappings ("- date: x" + indented keys)
+function parseYamlList(lines: string[]): FrontMatterValue[] {
+  const items: FrontMatterValue[] = []
+  let current: Record<string, FrontMatterValue> | null = null
+
+  for (const line of lines) {
+    const itemMatch = line.match(/^\s*-\s*(.*)$/)
+    if (itemMatch) {
+      const content = itemMatch[1]
+      const kv = content.match(KEY_VALUE)
+      if (kv) {
+        current = { [kv[1]]: parseYamlScalar(kv[2] ?? '') }
+        items.push(current)
+      } else {
+        current = null
+        items.push(parseYamlScalar(content))
+      }
+      continue
+    }
+
+    const kv = line.trim().match(KEY_VALUE)
+    if (kv && current) {
+      current[kv[1]] = parseYamlScalar(kv[2] ?? '')
+    }
+  }
+
+  return items
+}
+
+function parseFrontMatter(yaml: string): FrontMatter {
+  const result: FrontMatter = {}
+  const lines = yaml.split('\n')
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (!line.trim() || line.trim().startsWith('#')) continue
+
+    const kv = line.match(KEY_VALUE)
+    if (!kv) continue
+
+    if (kv[2] !== undefined && kv[2].trim() !== '') {
+      result[kv[1]] = parseYamlScalar(kv[2])
+      continue
+    }
+
+    // Collect the indented (or "- ") block belonging to this key
+    const block: string[] = []
+    while (i + 1 < lines.length && /^(\s+|-\s)/.test(lines[i + 1])) {
+      block.push(lines[++i])
+    }
+    result[kv[1]] = block.some(l => l.trim()) ? parseYamlList(block) : ''
+  }
+
+  return result
+}
+
+function splitFrontMatter(markdown: string): { frontMatter: FrontMatter; body: string } {
+  const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const match = text.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/)
+  if (!match) return { frontMatter: {}, body: text }
+  return { frontMatter: parseFrontMatter(match[1]), body: text.slice(match[0].length) }
+}
+
+type Section = 'ingredients' | 'steps' | 'notes' | 'other'
+
+function classifyHeading(heading: string): Section {
+  const normalized = heading.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+  if (/^ingredients?\b/.test(normalized)) return 'ingredients'
+  if (/^(preparation|etapes?|instructions?|steps?|directions?)\b/.test(normalized)) return 'steps'
+  if (/^notes?\b/.test(normalized)) return 'notes'
+  return 'other'
+}
+
+function parseIngredientLine(text: string, group?: string): Ingredient {
+  // Exported format: "**200 g** farine" (lossless), otherwise free text
+  const match = text.match(/^\*\*([^*\s]+)(?:\s+([^*]+?))?\*\*\s+(.+)$/)
+  const quantity = match ? parseFloat(match[1].replace(',', '.')) : NaN
+  const ingredient: Ingredient = match
+    ? { quantity: Number.isNaN(quantity) ? 1 : quantity, unit: match[2]?.trim() ?? '', name: match[3].trim() }
+    : parseIngredientString(text)
+  const link = ingredient.name.match(/^\[(.+)\]\(recipe:([^)\s]+)\)$/)
+  if (link) {
+    ingredient.name = link[1]
+    ingredient.recipeId = link[2]
+  }
+  if (group) ingredient.group = group
+  return ingredient
+}
+
+interface ParsedBody {
+  title?: string
+  ingredients: Ingredient[]
+  steps: string[]
+  notes?: string
+}
+
+function parseBody(body: string): ParsedBody {
+  const result: ParsedBody = { ingredients: [], steps: [] }
+  const notesLines: string[] = []
+  let section: Section = 'other'
+  let group: string | undefined
+
+  for (const line of body.split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    // Notes may contain their own headings ("## Variante"): only a known section ends them
+    const endsNotes = heading?.[1].length === 2 && classifyHeading(heading[2]) !== 'other'
+    if (heading && (section !== 'notes' || endsNotes)) {
+      const level = heading[1].length
+      if (level === 1) {
+        result.title ??= heading[2]
+        section = 'other'
+        continue
+      }
+      if (level === 2) {
+        section = classifyHeading(heading[2])
+        group = undefined
+        continue
+      }
+      if (section === 'ingredients') {
+        group = heading[2] || undefined
+        continue
+      }
+    }
+
+    if (section === 'ingredients') {
+      const item = line.match(/^\s*[-*+]\s+(.+)$/)
+      if (item) result.ingredients.push(parseIngredientLine(item[1].trim(), group))
+    } else if (section === 'steps') {
+      const item = line.match(/^(?:\d+[.)]|[-*+])\s+(.*)$/)
+      if (item) {
+        result.steps.push(item[1])
+      } else if (/^\s/.test(line) && result.steps.length > 0) {
+        result.steps[result.steps.length - 1] += '\n' + line.replace(/^ {1,3}/, '')
+      }
+    } else if (section === 'notes') {
+      notesLines.push(line)
+    }
+  }
+
+  const notes = notesLines.join('\n').trim()
+  if (notes) result.notes = notes
+
+  return result
+}
+
+function asString(value: FrontMatterValue | undefined): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  return typeof value === 'string' ? value : String(value)
+}
+
+function asNumber(value: FrontMatterValue | undefined): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value)
+  return undefined
+}
+
+// Invalid JSON is ignored (ingredients found in the text again)
+function asStepIngredients(value: FrontMatterValue | undefined): Recipe['stepIngredients'] {
+  if (typeof value !== 'string') return undefined
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (!Array.isArray(parsed)) return undefined
+    return parsed.map(step => Array.isArray(step) ? step.filter(i => Number.isInteger(i)) : null)
+  } catch {
+    return undefined
+  }
+}
+
+function asHistory(value: FrontMatterValue | undefined): HistoryEntry[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    if (typeof item === 'string') return [{ date: item }]
+    if (item && typeof item === 'object' && !Array.isArray(item) && item.date) {
+      const entry: HistoryEntry = { date: String(item.date) }
+      const notes = asString(item.notes)
+      if (notes) entry.notes = notes
+      return [entry]
+    }
+    return []
+  })
+}
+
+export function parseRecipeMarkdown(markdown: string): MarkdownRecipe {
+  const { frontMatter: fm, body } = splitFrontMatter(markdown)
+  const parsed = parseBody(body)
+
+  const title = asString(fm.title) ?? parsed.title
+  if (!title) {
+    throw new Error('Titre de recette introuvable')
+  }
+
+  const now = new Date().toISOString()
+  const id = asString(fm.id) ?? uuidv4()
+
+  const recipe: Recipe = {
+    id,
+    title,
+    servings: asNumber(fm.servings) ?? 4,
+    ingredients: parsed.ingredients,
+    steps: parsed.steps,
+    createdAt: asString(fm.createdAt) ?? now,
+    updatedAt: asString(fm.updatedAt) ?? now
+  }
+
+  const source = asString(fm.source)
+  const parentId = asString(fm.parentId)
+  const image = asString(fm.image)
+  const prepTime = asNumber(fm.prepTime)
+  const cookTime = asNumber(fm.cookTime)
+  if (source) recipe.source = source
+  if (parentId) recipe.parentId = parentId
+  if (image) recipe.image = image
+  if (prepTime !== undefined) recipe.prepTime = prepTime
+  if (cookTime !== undefined) recipe.cookTime = cookTime
+  if (parsed.notes) recipe.notes = parsed.notes
+  const stepIngredients = asStepIngredients(fm.stepIngredients)
+  if (stepIngredients) recipe.stepIngredients = stepIngredients
+
+  const status = asString(fm.status) as RecipeStatus | undefined
+  const metadata: RecipeMetadata = {
+    id,
+    status: status && STATUSES.includes(status) ? status : 'to-test',
+    tags: Array.isArray(fm.tags) ? fm.tags.map(t => String(t)).filter(t => t) : [],
+    history: asHistory(fm.history)
+  }
+
+  const rating = asNumber(fm.rating)
+  if (rating !== undefined) metadata.rating = rating
+
+  return { recipe, metadata }
+}
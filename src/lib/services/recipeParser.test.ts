@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { secureImageUrl, parseIngredientString, extractJsonLd } from './recipeParser'
+import { secureImageUrl, parseIngredientString, parseTextDuration, extractJsonLd } from './recipeParser'
 
 describe('secureImageUrl', () => {
   it('should return undefined for undefined input', () => {
@@ -41,7 +41,7 @@ describe('parseIngredientString', () => {
     const result = parseIngredientString('2 cups flour')
     expect(result.name).toBe('flour')
     expect(result.quantity).toBe(2)
-    expect(result.unit).toBe('tasses') // cups -> tasses
+    expect(result.unit).toBe('tasse') // cups -> tasse
   })
 
   it('should parse ingredient with tablespoon and normalize unit', () => {
@@ -81,6 +81,21 @@ describe('parseIngredientString', () => {
   })
 })
 
+describe('parseTextDuration', () => {
+  it('should parse minutes and hours', () => {
+    expect(parseTextDuration('45 min')).toBe(45)
+    expect(parseTextDuration('1 h 30')).toBe(90)
+    expect(parseTextDuration('1h30')).toBe(90)
+    expect(parseTextDuration('1 heure 15 minutes')).toBe(75)
+    expect(parseTextDuration('2 hours')).toBe(120)
+    expect(parseTextDuration('1 hour 30 mins')).toBe(90)
+  })
+
+  it('should return undefined without a duration', () => {
+    expect(parseTextDuration('au four')).toBeUndefined()
+  })
+})
+
 describe('extractJsonLd', () => {
   it('should return empty array for HTML without JSON-LD', () => {
     const html = '<html><body><p>Hello</p></body></html>'
@@ -1,4 +1,14 @@
 import type { Ingredient } from '../types'
+import { parseDurations } from './timers'
+import { resolveUnit } from './units'
+import {
+  extractFromHeadings,
+  extractMicrodata,
+  extractPluginMarkup,
+  type ExtractedRecipe,
+  type ExtractorName,
+  type RawRecipe
+} from './recipeExtractors'
 
 // JSON-LD Schema.org types
 interface JsonLdItem {
@@ -92,20 +102,38 @@ export interface ParsedRecipe {
   ingredients: Ingredient[]
   steps: string[]
   image?: string
+  imageBlob?: Blob // downloaded copy of the image, stored with the recipe (see storeImportedImage)
+  notes?: string
+  confidence?: ParseConfidence
 }
 
-// Parse ISO 8601 duration (PT15M, PT1H30M, etc.)
+export type RecipeField = 'title' | 'servings' | 'times' | 'ingredients' | 'steps'
+
+// How reliable a parsed recipe is, shown in the import preview
+export interface ParseConfidence {
+  extractor: ExtractorName
+  score: number // 0-1
+  uncertain: RecipeField[] // missing or guessed fields, to check before saving
+}
+
+// Parse ISO 8601 duration (PT15M, PT1H30M, etc.), or text ("15 min") from page markup
 function parseDuration(duration?: string): number | undefined {
   if (!duration) return undefined
 
   const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/)
-  if (!match) return undefined
+  if (!match) return parseTextDuration(duration)
 
   const hours = parseInt(match[1] || '0')
   const minutes = parseInt(match[2] || '0')
   return hours * 60 + minutes
 }
 
+// "1 h 30", "1h30", "45 min", "1 heure 15 minutes", "1 hour"
+export function parseTextDuration(text: string): number | undefined {
+  const [duration] = parseDurations(text)
+  return duration ? Math.round(duration.seconds / 60) : undefined
+}
+
 // Parse yield/servings from various formats
 function parseServings(recipeYield: string | number | string[] | undefined): number {
   if (!recipeYield) return 4
@@ -172,41 +200,9 @@ function parseQuantity(str: string): number {
   return parseFloat(str) || 1
 }
 
+// Same spelling as the units table ("tablespoons" -> "c. à soupe"); unknown units are kept
 function normalizeUnit(unit: string): string {
-  const unitMap: Record<string, string> = {
-    'cup': 'tasse',
-    'cups': 'tasses',
-    'tbsp': 'c. à soupe',
-    'tablespoon': 'c. à soupe',
-    'tablespoons': 'c. à soupe',
-    'tsp': 'c. à café',
-    'teaspoon': 'c. à café',
-    'teaspoons': 'c. à café',
-    'c. à s.': 'c. à soupe',
-    'c. à c.': 'c. à café',
-    'cuillère à soupe': 'c. à soupe',
-    'cuillères à soupe': 'c. à soupe',
-    'cuillère à café': 'c. à café',
-    'cuillères à café': 'c. à café',
-    'gramme': 'g',
-    'grammes': 'g',
-    'kilogramme': 'kg',
-    'kilogrammes': 'kg',
-    'litre': 'L',
-    'litres': 'L',
-    'l': 'L',
-    'ounce': 'oz',
-    'ounces': 'oz',
-    'pound': 'lb',
-    'pounds': 'lb',
-    'lbs': 'lb',
-    'piece': '',
-    'pieces': '',
-    'pièce': '',
-    'pièces': '',
-  }
-
-  return unitMap[unit.toLowerCase()] || unit
+  return resolveUnit(unit)?.symbol ?? unit
 }
 
 // Check if type matches (handles prefixes like "schema:HowToStep")
@@ -291,8 +287,8 @@ function findRecipeSchema(jsonLdList: JsonLdItem[]): RecipeSchema | null {
   return null
 }
 
-// Fetch image and convert to base64
-async function fetchImageAsBase64(imageUrl: string): Promise<string | undefined> {
+// Fetch image through the proxy
+async function fetchImage(imageUrl: string): Promise<Blob | undefined> {
   if (!imageUrl) return undefined
 
   try {
@@ -304,12 +300,7 @@ async function fetchImageAsBase64(imageUrl: string): Promise<string | undefined>
     const blob = await response.blob()
     if (!blob.type.startsWith('image/')) return undefined
 
-    return new Promise((resolve) => {
-      const reader = new FileReader()
-      reader.onloadend = () => resolve(reader.result as string)
-      reader.onerror = () => resolve(undefined)
-      reader.readAsDataURL(blob)
-    })
+    return blob
   } catch (error) {
     console.warn('Échec du téléchargement de l\'image:', imageUrl, error instanceof Error ? error.message : error)
     return undefined
@@ -325,30 +316,97 @@ function extractImageUrl(image: string | string[] | { url?: string } | undefined
   return undefined
 }
 
-// Main parsing function
-export function parseRecipeFromHtml(html: string, sourceUrl: string): ParsedRecipe | null {
-  const jsonLdList = extractJsonLd(html)
-  const recipeSchema = findRecipeSchema(jsonLdList)
+// ============ CONFIDENCE ============
 
-  if (!recipeSchema) {
-    return null
+// JSON-LD is written for search engines and is the most reliable, headings are guessed
+const EXTRACTOR_RELIABILITY: Record<ExtractorName, number> = {
+  'json-ld': 1,
+  'microdata': 0.9,
+  'plugin': 0.85,
+  'headings': 0.5
+}
+
+// Score lost for each missing field
+const MISSING_FIELD_PENALTY: Record<RecipeField, number> = {
+  title: 0.1,
+  servings: 0.1,
+  times: 0.05,
+  ingredients: 0.3,
+  steps: 0.25
+}
+
+export function scoreExtraction(extracted: ExtractedRecipe): ParseConfidence {
+  const { extractor, recipe } = extracted
+  const missing: RecipeField[] = []
+  if (!recipe.name) missing.push('title')
+  if (!recipe.recipeYield) missing.push('servings')
+  if (!recipe.prepTime && !recipe.cookTime) missing.push('times')
+  if (recipe.ingredients.length === 0) missing.push('ingredients')
+  if (recipe.steps.length === 0) missing.push('steps')
+
+  const penalty = missing.reduce((sum, field) => sum + MISSING_FIELD_PENALTY[field], 0)
+  const score = Math.round(EXTRACTOR_RELIABILITY[extractor] * (1 - penalty) * 100) / 100
+
+  // Lists found under headings may include unrelated items
+  const guessed: RecipeField[] = extractor === 'headings' ? ['title', 'ingredients', 'steps'] : []
+  const uncertain = [...new Set([...missing, ...guessed])]
+
+  return { extractor, score: Math.max(0, score), uncertain }
+}
+
+// ============ HTML PARSING ============
+
+function schemaToRawRecipe(schema: RecipeSchema): RawRecipe {
+  return {
+    name: decodeHtmlEntities(schema.name || '') || undefined,
+    recipeYield: schema.recipeYield,
+    prepTime: schema.prepTime,
+    cookTime: schema.cookTime,
+    ingredients: (schema.recipeIngredient || []).map(text => ({ text })),
+    steps: parseInstructions(schema.recipeInstructions || schema.recipeSteps),
+    image: extractImageUrl(schema.image)
   }
+}
 
-  const ingredients = (recipeSchema.recipeIngredient || []).map(parseIngredientString)
-  const steps = parseInstructions(recipeSchema.recipeInstructions || recipeSchema.recipeSteps)
+function toParsedRecipe(extracted: ExtractedRecipe, sourceUrl: string): ParsedRecipe {
+  const { recipe } = extracted
 
   return {
-    title: decodeHtmlEntities(recipeSchema.name || '') || 'Recette sans titre',
+    title: recipe.name || 'Recette sans titre',
     source: sourceUrl,
-    prepTime: parseDuration(recipeSchema.prepTime),
-    cookTime: parseDuration(recipeSchema.cookTime),
-    servings: parseServings(recipeSchema.recipeYield),
-    ingredients,
-    steps,
-    image: extractImageUrl(recipeSchema.image)
+    prepTime: parseDuration(recipe.prepTime),
+    cookTime: parseDuration(recipe.cookTime),
+    servings: parseServings(recipe.recipeYield),
+    ingredients: recipe.ingredients.map(({ text, group }) => {
+      const ingredient = parseIngredientString(text)
+      if (group) ingredient.group = group
+      return ingredient
+    }),
+    steps: recipe.steps,
+    image: recipe.image,
+    confidence: scoreExtraction(extracted)
   }
 }
 
+// Main parsing function: JSON-LD first, then microdata/RDFa, plugin markup and headings
+export function parseRecipeFromHtml(html: string, sourceUrl: string): ParsedRecipe | null {
+  const recipeSchema = findRecipeSchema(extractJsonLd(html))
+  if (recipeSchema) {
+    return toParsedRecipe({ extractor: 'json-ld', recipe: schemaToRawRecipe(recipeSchema) }, sourceUrl)
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const candidates = [extractMicrodata(doc), extractPluginMarkup(doc), extractFromHeadings(doc)]
+    .filter((candidate): candidate is ExtractedRecipe => candidate !== null)
+  if (candidates.length === 0) {
+    return null
+  }
+
+  // Keep the most complete result
+  const best = candidates.reduce((a, b) => scoreExtraction(b).score > scoreExtraction(a).score ? b : a)
+  return toParsedRecipe(best, sourceUrl)
+}
+
 // CORS proxies to try in order (corsproxy.io first - works for most sites including 750g.com)
 const CORS_PROXIES = [
   (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
@@ -422,19 +480,14 @@ export async function fetchAndParseRecipe(
     if (url.includes('marmiton.org')) {
       throw new Error('Marmiton charge ses recettes via JavaScript, ce qui empêche l\'import automatique. Vous pouvez créer la recette manuellement.')
     }
-    throw new Error('Aucune recette schema.org trouvée sur cette page')
+    throw new Error('Aucune recette trouvée sur cette page')
   }
 
-  // Convert image URL to base64
+  // Keep a copy of the image, and the URL (upgraded to HTTPS) if the download fails
   if (recipe.image) {
     onProgress?.('Téléchargement de l\'image...')
-    const base64Image = await fetchImageAsBase64(recipe.image)
-    if (base64Image) {
-      recipe.image = base64Image
-    } else {
-      // If base64 conversion fails, at least upgrade to HTTPS
-      recipe.image = secureImageUrl(recipe.image)
-    }
+    recipe.imageBlob = await fetchImage(recipe.image)
+    recipe.image = secureImageUrl(recipe.image)
   }
 
   onProgress?.('Terminé !')
@@ -0,0 +1,279 @@
+// Remote JSON file store
+// Stores each data type as a JSON file on a remote server (GitHub, WebDAV...).
+// Writes are checked against the file version (sha, ETag); when someone else saved
+// meanwhile, both versions are merged record by record (see merge.ts).
+
+import { mergeRecords, resolveConflicts, type MergeRecord, type MergeConflict, type ConflictChoice } from './merge'
+import type { Recipe, RecipeMetadata } from '../types'
+import type { DataStoreName, ExportData, PantryItem, PlanningEntry, ShoppingList } from './storage'
+import type { RecordChange } from './storageBackend'
+
+export interface RemoteFile {
+  content: string
+  version?: string // sha (GitHub), ETag (WebDAV)
+}
+
+// Low-level file access of a remote backend
+export interface RemoteTransport {
+  readFile(name: string, noCache?: boolean): Promise<RemoteFile | null>
+  // Must throw an error containing "Conflit" when the file is no longer at `version`
+  writeFile(name: string, content: string, message: string, version?: string): Promise<string | undefined>
+  // Binary files (images), never modified once written
+  readBlob(name: string): Promise<Blob | null>
+  writeBlob(name: string, blob: Blob, message: string): Promise<void>
+}
+
+export const FILE_NAMES: Record<DataStoreName, string> = {
+  recipes: 'recipes.json',
+  metadata: 'metadata.json',
+  planning: 'planning.json',
+  shoppingLists: 'shopping-lists.json',
+  pantry: 'pantry.json'
+}
+
+// Recipe images, named after their content (see imageStore.ts)
+export const IMAGES_FOLDER = 'images'
+
+// Called when both sides changed the same records, returns the version to keep
+export type ConflictResolver = (
+  fileKey: DataStoreName,
+  conflicts: MergeConflict<MergeRecord>[]
+) => Promise<Record<string, ConflictChoice>>
+
+let conflictResolver: ConflictResolver | null = null
+
+export function setConflictResolver(resolver: ConflictResolver | null): void {
+  conflictResolver = resolver
+}
+
+async function askConflictResolution(
+  fileKey: DataStoreName,
+  conflicts: MergeConflict<MergeRecord>[]
+): Promise<Record<string, ConflictChoice>> {
+  if (!conflictResolver) {
+    throw new Error('Modifications concurrentes impossibles a fusionner. Rechargez la page.')
+  }
+  return conflictResolver(fileKey, conflicts)
+}
+
+// Deep clone (also removes Svelte 5 Proxies, which structuredClone rejects)
+function cloneRecords<T>(records: T[]): T[] {
+  return JSON.parse(JSON.stringify(records))
+}
+
+function parseRecords<T>(fileKey: DataStoreName, content: string): T[] | null {
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    console.error(`Erreur de parsing JSON pour ${FILE_NAMES[fileKey]}:`, error)
+    console.error('Contenu invalide:', content.substring(0, 200))
+    return null
+  }
+}
+
+function upsert<T extends MergeRecord>(records: T[], record: T): T[] {
+  const index = records.findIndex(r => r.id === record.id)
+  if (index >= 0) {
+    records[index] = record
+  } else {
+    records.push(record)
+  }
+  return records
+}
+
+export function createRemoteStore(transport: RemoteTransport) {
+  // Last version read from or written to the server, used as the merge base
+  const baseCache = new Map<DataStoreName, { version?: string; records: MergeRecord[] }>()
+  // Writes to the same file are queued so our own saves never conflict with each other
+  const writeQueues = new Map<DataStoreName, Promise<void>>()
+
+  async function getData<T extends MergeRecord>(fileKey: DataStoreName, noCache = false): Promise<T[]> {
+    const file = await transport.readFile(FILE_NAMES[fileKey], noCache)
+
+    if (!file) {
+      baseCache.set(fileKey, { records: [] })
+      return []
+    }
+
+    const records = parseRecords<T>(fileKey, file.content)
+    if (!records) {
+      // Return empty to avoid crash, but never use it as a merge base
+      return []
+    }
+
+    baseCache.set(fileKey, { version: file.version, records: cloneRecords(records) })
+    return records
+  }
+
+  // Apply a change to a data file. The change is computed from the base version;
+  // on a version conflict, the server version is merged record by record with ours
+  // and real conflicts are sent to the conflict resolver.
+  async function writeData<T extends MergeRecord>(
+    fileKey: DataStoreName,
+    update: (records: T[]) => T[],
+    message: string,
+    maxRetries: number
+  ): Promise<void> {
+    if (!baseCache.has(fileKey)) {
+      await getData<T>(fileKey, true)
+    }
+    const base = baseCache.get(fileKey)
+    if (!base) {
+      throw new Error(`Fichier ${FILE_NAMES[fileKey]} illisible, modification annulee`)
+    }
+
+    let baseRecords = base.records as T[]
+    let version = base.version
+    let records = update(cloneRecords(baseRecords))
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        const newVersion = await transport.writeFile(FILE_NAMES[fileKey], JSON.stringify(records, null, 2), message, version)
+        baseCache.set(fileKey, { version: newVersion, records: cloneRecords(records) })
+        return // Success
+      } catch (error) {
+        const isConflict = error instanceof Error && error.message.includes('Conflit')
+        if (!isConflict || attempt === maxRetries - 1) {
+          throw error
+        }
+
+        const remote = await transport.readFile(FILE_NAMES[fileKey], true)
+        const remoteRecords = remote ? parseRecords<T>(fileKey, remote.content) : []
+        if (!remoteRecords) throw error
+
+        const result = mergeRecords(baseRecords, records, remoteRecords)
+        records = result.conflicts.length > 0
+          ? resolveConflicts(result, await askConflictResolution(fileKey, result.conflicts))
+          : result.merged
+        baseRecords = remoteRecords
+        version = remote?.version
+      }
+    }
+  }
+
+  function updateData<T extends MergeRecord>(
+    fileKey: DataStoreName,
+    update: (records: T[]) => T[],
+    message: string,
+    maxRetries = 3
+  ): Promise<void> {
+    const previous = writeQueues.get(fileKey) ?? Promise.resolve()
+    const next = previous
+      .catch(() => {})
+      .then(() => writeData(fileKey, update, message, maxRetries))
+    writeQueues.set(fileKey, next)
+    return next
+  }
+
+  return {
+    // ============ RECIPES ============
+
+    getAllRecipes: () => getData<Recipe>('recipes'),
+
+    saveRecipe: (recipe: Recipe) =>
+      updateData<Recipe>('recipes', recipes => upsert(recipes, recipe), `Update recipe: ${recipe.title}`),
+
+    async deleteRecipe(id: string): Promise<void> {
+      await updateData<Recipe>('recipes', recipes => recipes.filter(r => r.id !== id), `Delete recipe ${id}`)
+      // Also delete metadata
+      await updateData<RecipeMetadata>('metadata', metadata => metadata.filter(m => m.id !== id), `Delete metadata ${id}`)
+    },
+
+    // ============ METADATA ============
+
+    getAllMetadata: () => getData<RecipeMetadata>('metadata'),
+
+    saveMetadata: (meta: RecipeMetadata) =>
+      updateData<RecipeMetadata>('metadata', metadata => upsert(metadata, meta), `Update metadata ${meta.id}`),
+
+    // ============ PLANNING ============
+
+    getAllPlanning: () => getData<PlanningEntry>('planning'),
+
+    savePlanningEntry: (entry: PlanningEntry) =>
+      updateData<PlanningEntry>('planning', planning => upsert(planning, entry), `Update planning ${entry.id}`),
+
+    deletePlanningEntry: (id: string) =>
+      updateData<PlanningEntry>('planning', planning => planning.filter(p => p.id !== id), `Delete planning ${id}`),
+
+    // ============ SHOPPING LISTS ============
+
+    getAllShoppingLists: () => getData<ShoppingList>('shoppingLists'),
+
+    saveShoppingList: (list: ShoppingList) =>
+      updateData<ShoppingList>('shoppingLists', lists => upsert(lists, list), `Update shopping list: ${list.name}`),
+
+    deleteShoppingList: (id: string) =>
+      updateData<ShoppingList>('shoppingLists', lists => lists.filter(l => l.id !== id), `Delete shopping list ${id}`),
+
+    // ============ PANTRY ============
+
+    getAllPantryItems: () => getData<PantryItem>('pantry'),
+
+    savePantryItem: (item: PantryItem) =>
+      updateData<PantryItem>('pantry', items => upsert(items, item), `Update pantry: ${item.name}`),
+
+    deletePantryItem: (id: string) =>
+      updateData<PantryItem>('pantry', items => items.filter(i => i.id !== id), `Delete pantry item ${id}`),
+
+    // ============ IMAGES ============
+
+    getImage: (id: string) => transport.readBlob(`${IMAGES_FOLDER}/${id}`),
+
+    saveImage: (id: string, blob: Blob) => transport.writeBlob(`${IMAGES_FOLDER}/${id}`, blob, `Add image ${id}`),
+
+    // ============ SYNC ============
+
+    // Replay queued offline changes on a data file in a single write
+    applyChanges: (fileKey: DataStoreName, changes: RecordChange[]) =>
+      updateData<MergeRecord>(fileKey, records =>
+        changes.reduce((acc, change) =>
+          change.type === 'delete'
+            ? acc.filter(r => r.id !== change.id)
+            : upsert(acc, change.record as MergeRecord),
+        records),
+        `Sync ${changes.length} change(s) to ${FILE_NAMES[fileKey]}`
+      ),
+
+    // Fresh copy of every data file (bypasses the browser cache)
+    async pullAllData(): Promise<ExportData> {
+      const [recipes, metadata, planning, shoppingLists, pantry] = await Promise.all([
+        getData<Recipe>('recipes', true),
+        getData<RecipeMetadata>('metadata', true),
+        getData<PlanningEntry>('planning', true),
+        getData<ShoppingList>('shoppingLists', true),
+        getData<PantryItem>('pantry', true)
+      ])
+      return { version: 1, exportedAt: new Date().toISOString(), recipes, metadata, planning, shoppingLists, pantry }
+    },
+
+    // ============ EXPORT / IMPORT ============
+
+    async exportAllData(): Promise<ExportData> {
+      const [recipes, metadata, planning, shoppingLists, pantry] = await Promise.all([
+        getData<Recipe>('recipes'),
+        getData<RecipeMetadata>('metadata'),
+        getData<PlanningEntry>('planning'),
+        getData<ShoppingList>('shoppingLists'),
+        getData<PantryItem>('pantry')
+      ])
+      return { version: 1, exportedAt: new Date().toISOString(), recipes, metadata, planning, shoppingLists, pantry }
+    },
+
+    async importAllData(data: ExportData): Promise<void> {
+      // Sequential writes to avoid conflicts
+      await updateData<Recipe>('recipes', () => data.recipes, 'Import recipes')
+      await updateData<RecipeMetadata>('metadata', () => data.metadata, 'Import metadata')
+      await updateData<PlanningEntry>('planning', () => data.planning, 'Import planning')
+      await updateData<ShoppingList>('shoppingLists', () => data.shoppingLists, 'Import shopping lists')
+      await updateData<PantryItem>('pantry', () => data.pantry ?? [], 'Import pantry')
+    },
+
+    // Clear merge base cache (useful after sync issues)
+    clearCache(): void {
+      baseCache.clear()
+    }
+  }
+}
+
+export type RemoteStore = ReturnType<typeof createRemoteStore>
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, diffRecipes, collapseRevisions } from './revisions'
+import { makeRecipe } from './__fixtures__/recipes'
+import type { Recipe } from '../types'
+import type { RecipeRevision } from './storage'
+
+function makeTarte(overrides: Partial<Recipe> = {}): Recipe {
+  return makeRecipe('r1', {
+    title: 'Tarte aux pommes',
+    servings: 6,
+    ingredients: [
+      { name: 'pommes', quantity: 4, unit: '' },
+      { name: 'sucre', quantity: 50, unit: 'g' },
+      { name: 'sel', quantity: 1, unit: 'pincée' }
+    ],
+    steps: ['Éplucher les pommes', 'Cuire 30 min'],
+    ...overrides
+  })
+}
+
+function revision(id: string, recipe: Recipe): RecipeRevision {
+  return { id, recipeId: recipe.id, savedAt: '2024-01-01T00:00:00.000Z', recipe }
+}
+
+describe('diffLines', () => {
+  it('should find added and removed lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+  })
+})
+
+describe('diffRecipes', () => {
+  it('should list changed fields only', () => {
+    const before = makeTarte()
+    const after = makeTarte({
+      servings: 8,
+      notes: 'Avec de la cannelle',
+      ingredients: [
+        { name: 'pommes', quantity: 4, unit: '' },
+        { name: 'sucre', quantity: 50, unit: 'g' },
+        { name: 'sel', quantity: 2, unit: 'pincée' }
+      ],
+      updatedAt: '2024-02-01T00:00:00.000Z'
+    })
+
+    expect(diffRecipes(before, after)).toEqual([
+      { field: 'servings', before: '6', after: '8' },
+      {
+        field: 'ingredients',
+        lines: [
+          { type: 'unchanged', text: '4 pommes' },
+          { type: 'unchanged', text: '50 g sucre' },
+          { type: 'removed', text: '1 pincée sel' },
+          { type: 'added', text: '2 pincée sel' }
+        ]
+      },
+      { field: 'notes', before: undefined, after: 'Avec de la cannelle' }
+    ])
+  })
+
+  it('should see changes of sub-recipe, variant and step links', () => {
+    const before = makeTarte()
+    const ingredients = [...before.ingredients.slice(0, 2), { name: 'sel', quantity: 1, unit: 'pincée', recipeId: 'r2' }]
+
+    expect(diffRecipes(before, makeTarte({ ingredients })).map(c => c.field)).toEqual(['ingredients'])
+    expect(diffRecipes(before, makeTarte({ parentId: 'r0' }))).toEqual([{ field: 'parentId', before: undefined, after: 'r0' }])
+    expect(diffRecipes(before, makeTarte({ stepIngredients: [[0], null] }))).toEqual([
+      { field: 'stepIngredients', lines: [{ type: 'added', text: 'Étape 1 : pommes' }] }
+    ])
+  })
+
+  it('should ignore dates', () => {
+    expect(diffRecipes(makeTarte(), makeTarte({ updatedAt: '2025-01-01T00:00:00.000Z' }))).toEqual([])
+  })
+})
+
+describe('collapseRevisions', () => {
+  it('should keep the revision where each change was made', () => {
+    const v1 = makeTarte()
+    const v2 = makeTarte({ steps: ['Cuire 30 min'] })
+
+    const kept = collapseRevisions([revision('c', v2), revision('b', v2), revision('a', v1)])
+    expect(kept.map(r => r.id)).toEqual(['b', 'a'])
+  })
+})
@@ -0,0 +1,124 @@
+// Recipe revisions
+// Every saved version of a recipe is kept on this device (see dataService.ts); with GitHub,
+// older versions also come from the commits of recipes.json. Revisions are compared
+// field by field, ingredients and steps line by line.
+
+import type { Ingredient, Recipe } from '../types'
+import type { RecipeRevision } from './storage'
+
+// Revisions kept per recipe on this device (oldest are dropped)
+export const MAX_REVISIONS = 50
+
+export type RevisionField =
+  'title' | 'source' | 'parentId' | 'image' | 'prepTime' | 'cookTime' | 'servings' | 'ingredients' | 'steps' |
+  'stepIngredients' | 'notes'
+
+export interface LineChange {
+  type: 'added' | 'removed' | 'unchanged'
+  text: string
+}
+
+export interface FieldChange {
+  field: RevisionField
+  before?: string
+  after?: string
+  lines?: LineChange[] // ingredients and steps
+}
+
+const SCALAR_FIELDS: RevisionField[] = ['title', 'source', 'parentId', 'image', 'prepTime', 'cookTime', 'servings', 'notes']
+
+// ============ DIFF ============
+
+function formatIngredient(ingredient: Ingredient): string {
+  const parts = [ingredient.quantity ? String(ingredient.quantity) : '', ingredient.unit, ingredient.name]
+  let text = parts.filter(Boolean).join(' ')
+  if (ingredient.recipeId) text += ` [sous-recette ${ingredient.recipeId}]`
+  return ingredient.group ? `${text} (${ingredient.group})` : text
+}
+
+// Ingredients chosen by hand for each step: "Étape 2 : farine, beurre"
+function formatStepLinks(recipe: Recipe): string[] {
+  const lines: string[] = []
+  recipe.stepIngredients?.forEach((indexes, i) => {
+    if (!indexes) return
+    const names = indexes.map(index => recipe.ingredients[index]?.name ?? `#${index + 1}`)
+    lines.push(`Étape ${i + 1} : ${names.join(', ') || 'aucun'}`)
+  })
+  return lines
+}
+
+function formatValue(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value)
+}
+
+// Line diff (longest common subsequence), removed lines before the ones replacing them
+export function diffLines(before: string[], after: string[]): LineChange[] {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const changes: LineChange[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      changes.push({ type: 'unchanged', text: before[i] })
+      i++
+      j++
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      changes.push({ type: 'removed', text: before[i] })
+      i++
+    } else {
+      changes.push({ type: 'added', text: after[j] })
+      j++
+    }
+  }
+  return changes
+}
+
+// Changed fields from `before` to `after` (ids and dates are ignored)
+export function diffRecipes(before: Recipe, after: Recipe): FieldChange[] {
+  const changes: FieldChange[] = []
+
+  for (const field of SCALAR_FIELDS) {
+    const oldValue = formatValue(before[field as keyof Recipe])
+    const newValue = formatValue(after[field as keyof Recipe])
+    if (oldValue !== newValue) changes.push({ field, before: oldValue, after: newValue })
+  }
+
+  const lists: [RevisionField, string[], string[]][] = [
+    ['ingredients', before.ingredients.map(formatIngredient), after.ingredients.map(formatIngredient)],
+    ['steps', before.steps, after.steps],
+    ['stepIngredients', formatStepLinks(before), formatStepLinks(after)]
+  ]
+  for (const [field, oldLines, newLines] of lists) {
+    const lines = diffLines(oldLines, newLines)
+    if (lines.some(line => line.type !== 'unchanged')) changes.push({ field, lines })
+  }
+
+  // Same order as the recipe page
+  const order: RevisionField[] = [
+    'title', 'source', 'parentId', 'image', 'prepTime', 'cookTime', 'servings', 'ingredients', 'steps', 'stepIngredients', 'notes'
+  ]
+  return changes.sort((a, b) => order.indexOf(a.field) - order.indexOf(b.field))
+}
+
+export function isSameRecipe(a: Recipe, b: Recipe): boolean {
+  return diffRecipes(a, b).length === 0
+}
+
+// ============ HISTORY ============
+
+// Only keep revisions where the recipe changed (newest first in and out).
+// Of several identical versions in a row, the oldest is kept: it is when the change was made
+export function collapseRevisions(revisions: RecipeRevision[]): RecipeRevision[] {
+  return revisions.filter((revision, i) => {
+    const older = revisions[i + 1]
+    return !older || !isSameRecipe(older.recipe, revision.recipe)
+  })
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getScaleRatio,
+  formatQuantity,
+  formatScaledQuantity,
+  formatFraction,
+  formatIngredientQuantity,
+  formatScaledIngredient,
+  scaleStepText,
+  parseServingsParam,
+  withServings
+} from './scaling'
+
+describe('getScaleRatio', () => {
+  it('should divide wanted servings by recipe servings', () => {
+    expect(getScaleRatio(4, 2)).toBe(0.5)
+    expect(getScaleRatio(4, 8)).toBe(2)
+  })
+
+  it('should not scale without a valid servings count', () => {
+    expect(getScaleRatio(4)).toBe(1)
+    expect(getScaleRatio(4, null)).toBe(1)
+    expect(getScaleRatio(4, 0)).toBe(1)
+    expect(getScaleRatio(0, 2)).toBe(1)
+  })
+})
+
+describe('formatQuantity', () => {
+  it('should round according to the magnitude', () => {
+    expect(formatQuantity(0.333)).toBe('0.33')
+    expect(formatQuantity(2.5)).toBe('2.5')
+    expect(formatQuantity(3)).toBe('3')
+    expect(formatQuantity(12.4)).toBe('12')
+  })
+
+  it('should format scaled quantities', () => {
+    expect(formatScaledQuantity(250, 0.5)).toBe('125')
+    expect(formatScaledQuantity(1, 1.5)).toBe('1.5')
+  })
+})
+
+describe('formatIngredientQuantity', () => {
+  it('should round spoons and pieces to kitchen fractions', () => {
+    expect(formatFraction(0.5)).toBe('½')
+    expect(formatFraction(1.3)).toBe('1 ⅓')
+    expect(formatFraction(2.76)).toBe('2 ¾')
+    expect(formatFraction(1.95)).toBe('2')
+    expect(formatFraction(0.05)).toBe('¼')
+    expect(formatIngredientQuantity(1.5, 'c. à soupe', 'huile')).toBe('1 ½')
+    expect(formatIngredientQuantity(0.25, '', 'citron')).toBe('¼')
+  })
+
+  it('should keep weighed and measured quantities as numbers', () => {
+    expect(formatIngredientQuantity(125, 'g', 'sucre')).toBe('125')
+    expect(formatIngredientQuantity(0.75, 'L', 'lait')).toBe('0.75')
+  })
+
+  it('should count whole eggs', () => {
+    expect(formatIngredientQuantity(1.5, '', 'oeufs')).toBe('2')
+    expect(formatIngredientQuantity(0.3, '', "jaunes d'œufs")).toBe('1')
+    expect(formatScaledIngredient({ name: 'Œufs', quantity: 3, unit: '' }, 0.5)).toBe('2')
+  })
+})
+
+describe('scaleStepText', () => {
+  it('should scale amounts written in a step', () => {
+    expect(scaleStepText('Ajouter 200 g de sucre et 1,5 c. à soupe de miel', 2)).toBe('Ajouter 400 g de sucre et 3 c. à soupe de miel')
+    expect(scaleStepText('Battre 3 oeufs avec 25 cl de lait', 0.5)).toBe('Battre 2 oeufs avec 13 cl de lait')
+    expect(scaleStepText('Verser 1 l d\'eau', 1.5)).toBe('Verser 1.5 l d\'eau')
+  })
+
+  it('should scale fractions as one amount', () => {
+    expect(scaleStepText('Ajouter 1/2 verre de lait', 2)).toBe('Ajouter 1 verre de lait')
+    expect(scaleStepText('Ajouter ½ verre de lait', 2)).toBe('Ajouter 1 verre de lait')
+    expect(scaleStepText('Ajouter 1 ½ tasse de farine', 2)).toBe('Ajouter 3 tasse de farine')
+  })
+
+  it('should scale both ends of a range', () => {
+    expect(scaleStepText('Battre 3-4 oeufs', 2)).toBe('Battre 6-8 oeufs')
+    expect(scaleStepText('Ajouter 10 à 15 g de sel', 2)).toBe('Ajouter 20 à 30 g de sel')
+  })
+
+  it('should leave times, temperatures and sizes alone', () => {
+    const step = 'Cuire 20 min à 180°C, en couches de 2 cm, puis laisser 1 heure'
+    expect(scaleStepText(step, 2)).toBe(step)
+  })
+})
+
+describe('parseServingsParam', () => {
+  it('should read servings from a route query', () => {
+    expect(parseServingsParam('servings=2')).toBe(2)
+    expect(parseServingsParam('servings=abc')).toBeNull()
+    expect(parseServingsParam(undefined)).toBeNull()
+  })
+
+  it('should only add servings that differ from the recipe', () => {
+    expect(withServings('/cooking/abc', 6, 4)).toBe('/cooking/abc?servings=6')
+    expect(withServings('/cooking/abc', 4, 4)).toBe('/cooking/abc')
+    expect(withServings('/cooking/abc', null, 4)).toBe('/cooking/abc')
+  })
+})
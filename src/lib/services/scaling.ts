@@ -0,0 +1,128 @@
+// Recipe scaling
+// Adjusts ingredient quantities to a number of servings, rounded the way they are measured
+// in a kitchen: grams and millilitres as numbers, spoons and pieces as fractions (1 ½),
+// eggs as whole eggs. Used by the recipe page and the cooking mode.
+
+import { resolveUnit } from './units'
+import { tokenize } from './searchIndex'
+
+// Ratio between the wanted servings and the servings the recipe is written for
+export function getScaleRatio(recipeServings: number, servings?: number | null): number {
+  if (!servings || servings <= 0 || !recipeServings || recipeServings <= 0) return 1
+  return servings / recipeServings
+}
+
+export function scaleQuantity(quantity: number, ratio: number): number {
+  return quantity * ratio
+}
+
+// Arrondi intelligent: 0.33, 2.5, 12
+export function formatQuantity(quantity: number): string {
+  if (quantity < 1) return quantity.toFixed(2).replace(/\.?0+$/, '')
+  if (quantity < 10) return quantity.toFixed(1).replace(/\.?0+$/, '')
+  return Math.round(quantity).toString()
+}
+
+export function formatScaledQuantity(quantity: number, ratio: number): string {
+  return formatQuantity(scaleQuantity(quantity, ratio))
+}
+
+// ============ KITCHEN ROUNDING ============
+
+const FRACTIONS: [number, string][] = [[0, ''], [1 / 4, '¼'], [1 / 3, '⅓'], [1 / 2, '½'], [2 / 3, '⅔'], [3 / 4, '¾'], [1, '']]
+
+// Weighed or measured with a graduated jug: no fractions
+const PRECISE_UNITS = new Set(['mg', 'g', 'kg', 'oz', 'lb', 'ml', 'cl', 'dl', 'L'])
+
+function isPreciseUnit(unit: string): boolean {
+  const def = resolveUnit(unit)
+  return !!def && PRECISE_UNITS.has(def.symbol)
+}
+
+// Eggs cannot be split ("oeufs", "jaunes d'oeufs")
+function isEgg(name: string): boolean {
+  return tokenize(name).some(word => word === 'oeuf' || word === 'oeufs')
+}
+
+// "1 ½", "⅔", "12" (a positive quantity never shows as 0)
+export function formatFraction(quantity: number): string {
+  if (quantity >= 10) return Math.round(quantity).toString()
+  let whole = Math.floor(quantity)
+  const rest = quantity - whole
+  const [value, symbol] = FRACTIONS.reduce((best, fraction) =>
+    Math.abs(fraction[0] - rest) < Math.abs(best[0] - rest) ? fraction : best
+  )
+  if (value === 1) whole++
+  if (whole === 0 && !symbol) return quantity > 0 ? '¼' : '0'
+  if (!symbol) return whole.toString()
+  return whole > 0 ? `${whole} ${symbol}` : symbol
+}
+
+// Quantity of an ingredient as shown in a recipe
+export function formatIngredientQuantity(quantity: number, unit = '', name = ''): string {
+  const def = resolveUnit(unit)
+  if (isEgg(name) && (!unit || def?.dimension === 'count')) return Math.max(1, Math.round(quantity)).toString()
+  if (isPreciseUnit(unit)) return formatQuantity(quantity)
+  return formatFraction(quantity)
+}
+
+export function formatScaledIngredient(ingredient: { quantity: number; unit: string; name: string }, ratio: number): string {
+  return formatIngredientQuantity(scaleQuantity(ingredient.quantity, ratio), ingredient.unit, ingredient.name)
+}
+
+// ============ STEP TEXT ============
+
+// Amounts written in steps: "200 g de sucre", "2 c. à soupe d'huile", "3 oeufs", "1/2 verre",
+// "1 ½ tasse", "3-4 oeufs", "10 à 15 g" (a fraction or a range is one amount)
+// (times, temperatures and sizes are left alone: "20 min", "180°C", "2 cm")
+const UNICODE_FRACTIONS = new Map(FRACTIONS.filter(([, symbol]) => symbol).map(([value, symbol]) => [symbol, value]))
+const FRACTION_SYMBOLS = `[${[...UNICODE_FRACTIONS.keys()].join('')}]`
+const AMOUNT = `(?:\\d+\\s?${FRACTION_SYMBOLS}|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?|${FRACTION_SYMBOLS})`
+const TEXT_AMOUNT = new RegExp(
+  `(?<![\\d/])(${AMOUNT})(?:(\\s*(?:-|–|à|a|ou)\\s*)(${AMOUNT}))?(\\s*)(` + [
+    'kg', 'mg', 'g', 'ml', 'cl', 'dl', 'l(?!\')', 'litres?', 'grammes?', 'kilos?',
+    'c\\.\\s?à\\s?(?:soupe|café|s\\.|c\\.)', 'cuill[eè]res?\\s(?:à|a)\\s(?:soupe|café)', 'cs', 'cc',
+    'tasses?', 'verres?', 'pincées?', 'sachets?', 'gousses?', 'tranches?', 'œufs?', 'oeufs?', 'jaunes?', 'blancs?'
+  ].join('|') + ')(?![\\p{L}])',
+  'giu'
+)
+
+const EGG_WORDS = /^(œufs?|oeufs?|jaunes?|blancs?)$/i
+
+// "1,5", "1/2", "½", "1 ½"
+function parseTextAmount(amount: string): number {
+  const fraction = amount.match(/^(\d+)\/(\d+)$/)
+  if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10)
+  const symbol = amount.slice(-1)
+  const unicode = UNICODE_FRACTIONS.get(symbol)
+  if (unicode !== undefined) return (parseInt(amount, 10) || 0) + unicode
+  return parseFloat(amount.replace(',', '.'))
+}
+
+// Scale the amounts of a step text ("ajouter 200 g de sucre" -> "ajouter 400 g de sucre")
+export function scaleStepText(text: string, ratio: number): string {
+  if (ratio === 1) return text
+  return text.replace(TEXT_AMOUNT, (whole: string, value: string, separator = '', maxValue = '', space: string, unit: string) => {
+    const format = (amount: string) => {
+      const quantity = scaleQuantity(parseTextAmount(amount), ratio)
+      if (!Number.isFinite(quantity)) return amount
+      return EGG_WORDS.test(unit)
+        ? formatIngredientQuantity(quantity, '', 'oeufs')
+        : formatIngredientQuantity(quantity, unit)
+    }
+    const range = maxValue ? `${separator}${format(maxValue)}` : ''
+    return `${format(value)}${range}${space}${unit}`
+  })
+}
+
+// Servings passed in a route query ("/recipes/<id>?servings=2")
+export function parseServingsParam(query: string | undefined): number | null {
+  if (!query) return null
+  const value = parseInt(new URLSearchParams(query).get('servings') ?? '', 10)
+  return value > 0 ? value : null
+}
+
+// Route keeping the chosen servings, when they differ from the recipe's own
+export function withServings(path: string, servings: number | null | undefined, recipeServings: number): string {
+  return servings && servings > 0 && servings !== recipeServings ? `${path}?servings=${servings}` : path
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { createSearchIndex, parseQuery, tokenize, highlightText, findSnippet } from './searchIndex'
+import { makeRecipeWithMeta, ingredients } from './__fixtures__/recipes'
+
+describe('parseQuery', () => {
+  it('should fold accents and case', () => {
+    expect(tokenize('Crème BRÛLÉE, œufs')).toEqual(['creme', 'brulee', 'oeufs'])
+  })
+
+  it('should read quoted phrases', () => {
+    expect(parseQuery('poulet "pommes de terre" four')).toEqual({
+      terms: ['poulet', 'four'],
+      phrases: [['pommes', 'de', 'terre']]
+    })
+    expect(parseQuery('"creme fr')).toEqual({ terms: [], phrases: [['creme', 'fr']] })
+  })
+})
+
+describe('createSearchIndex', () => {
+  const recipes = [
+    makeRecipeWithMeta('gratin', { title: 'Gratin dauphinois', ingredients: ingredients('pommes de terre', 'crème fraîche') }),
+    makeRecipeWithMeta('creme', { title: 'Crème brûlée', ingredients: ingredients('oeufs', 'sucre') }),
+    makeRecipeWithMeta('tarte', {
+      title: 'Tarte aux pommes',
+      steps: ['Étaler la pâte', 'Servir avec de la crème'],
+      metadata: { id: 'tarte', status: 'to-test', tags: ['dessert'], history: [] }
+    })
+  ]
+
+  it('should find words without accents, by prefix, title first', () => {
+    const index = createSearchIndex()
+    index.update(recipes)
+
+    expect(index.search('creme').map(r => r.id)).toEqual(['creme', 'gratin', 'tarte'])
+    expect(index.search('DESS').map(r => r.id)).toEqual(['tarte'])
+    expect(index.search('pate').map(r => r.id)).toEqual(['tarte'])
+  })
+
+  it('should require every word and phrase', () => {
+    const index = createSearchIndex()
+    index.update(recipes)
+
+    expect(index.search('pommes creme').map(r => r.id)).toEqual(['tarte', 'gratin'])
+    expect(index.search('"pommes de terre"').map(r => r.id)).toEqual(['gratin'])
+    expect(index.search('"terre de pommes"')).toEqual([])
+    expect(index.search('  ')).toEqual([])
+  })
+
+  it('should only reindex changed recipes', () => {
+    const index = createSearchIndex()
+    index.update(recipes)
+
+    const renamed = { ...recipes[1], title: 'Flan' }
+    index.update([recipes[0], renamed])
+
+    expect(index.size).toBe(2)
+    expect(index.search('brulee')).toEqual([])
+    expect(index.search('flan').map(r => r.id)).toEqual(['creme'])
+    expect(index.search('dessert')).toEqual([])
+  })
+})
+
+describe('highlightText', () => {
+  it('should mark matches in the original text', () => {
+    expect(highlightText('Crème brûlée', parseQuery('creme bru'))).toEqual([
+      { text: 'Crème', match: true },
+      { text: ' ', match: false },
+      { text: 'brû', match: true },
+      { text: 'lée', match: false }
+    ])
+  })
+
+  it('should only mark words starting with the term', () => {
+    expect(highlightText('Riz au lait', parseQuery('ai'))).toEqual([{ text: 'Riz au lait', match: false }])
+  })
+
+  it('should show where a recipe matched outside its title', () => {
+    const recipe = makeRecipeWithMeta('tarte', {
+      title: 'Tarte',
+      steps: ['Préchauffer le four à 180°C pendant que la pâte repose au frais, puis étaler et garnir de crème.']
+    })
+
+    expect(findSnippet(recipe, parseQuery('tarte'))).toBeNull()
+    expect(findSnippet(recipe, parseQuery('creme'))).toEqual({
+      field: 'steps',
+      text: '…au frais, puis étaler et garnir de crème.'
+    })
+  })
+})
@@ -0,0 +1,321 @@
+// Full-text search
+// In-memory inverted index of the recipes: accents and case are ignored, words match
+// by prefix ("crem" finds "crème"), "quoted phrases" match consecutive words, and
+// results are ranked by the field where words were found (title first)
+
+import type { RecipeWithMeta } from '../types'
+
+export type SearchField = 'title' | 'ingredients' | 'tags' | 'steps' | 'notes'
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  ingredients: 5,
+  tags: 4,
+  steps: 2,
+  notes: 1
+}
+
+// A word found by prefix counts less than the whole word
+const PREFIX_FACTOR = 0.5
+
+// Characters around the match in step and note excerpts
+const SNIPPET_CONTEXT = 40
+
+export interface SearchQuery {
+  terms: string[] // matched by prefix
+  phrases: string[][] // "quoted words", matched exactly and in order
+}
+
+export interface SearchResult {
+  id: string
+  score: number
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// Each field is a list of texts (one per ingredient, step...): phrases never span two of them
+type DocFields = Record<SearchField, string[][]>
+
+// ============ TEXT ============
+
+// Lowercase without accents: "Crème Brûlée" -> "creme brulee"
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/œ/g, 'oe').replace(/æ/g, 'ae')
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^a-z0-9]+/).filter(Boolean)
+}
+
+// Words of an ingredient name or a step, plural and singular being the same word ("oeufs", "poireaux")
+export function singularWords(text: string): string[] {
+  return tokenize(text).map(word => word.length > 3 ? word.replace(/[sx]$/, '') : word)
+}
+
+// Position of a sequence of words ("pomme de terre") in a text, -1 if absent.
+// `same` compares the word of the text at `index` with the wanted one
+export function findWordSequence(
+  words: string[],
+  sequence: string[],
+  same: (word: string, wanted: string, index: number) => boolean = (word, wanted) => word === wanted
+): number {
+  for (let i = 0; i + sequence.length <= words.length; i++) {
+    if (sequence.every((wanted, j) => same(words[i + j], wanted, i + j))) return i
+  }
+  return -1
+}
+
+export function parseQuery(query: string): SearchQuery {
+  const phrases: string[][] = []
+  // An unclosed quote runs to the end, while typing
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const words = tokenize(phrase)
+    if (words.length > 0) phrases.push(words)
+    return ' '
+  })
+  return { terms: tokenize(rest), phrases }
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0
+}
+
+function getDocFields(recipe: RecipeWithMeta): DocFields {
+  return {
+    title: [tokenize(recipe.title)],
+    ingredients: recipe.ingredients.map(i => tokenize(i.name)),
+    tags: recipe.metadata.tags.map(tokenize),
+    steps: recipe.steps.map(tokenize),
+    notes: recipe.notes ? [tokenize(recipe.notes)] : []
+  }
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) return true
+  }
+  return false
+}
+
+// Ids found by every part of the query, scores added up
+function intersect(scores: Map<string, number> | null, partScores: Map<string, number>): Map<string, number> {
+  if (!scores) return partScores
+  const result = new Map<string, number>()
+  for (const [id, score] of scores) {
+    const partScore = partScores.get(id)
+    if (partScore !== undefined) result.set(id, score + partScore)
+  }
+  return result
+}
+
+// ============ INDEX ============
+
+export function createSearchIndex() {
+  const docs = new Map<string, { recipe: RecipeWithMeta; fields: DocFields }>()
+  // word -> recipe id -> fields containing the word
+  const postings = new Map<string, Map<string, Set<SearchField>>>()
+  // Sorted words for prefix lookups, rebuilt after changes
+  let sortedTerms: string[] | null = null
+
+  function add(recipe: RecipeWithMeta) {
+    const fields = getDocFields(recipe)
+    docs.set(recipe.id, { recipe, fields })
+
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const word of fields[field].flat()) {
+        let docsForWord = postings.get(word)
+        if (!docsForWord) {
+          docsForWord = new Map()
+          postings.set(word, docsForWord)
+          sortedTerms = null
+        }
+        let wordFields = docsForWord.get(recipe.id)
+        if (!wordFields) {
+          wordFields = new Set()
+          docsForWord.set(recipe.id, wordFields)
+        }
+        wordFields.add(field)
+      }
+    }
+  }
+
+  function remove(id: string) {
+    const doc = docs.get(id)
+    if (!doc) return
+    docs.delete(id)
+
+    for (const word of new Set(Object.values(doc.fields).flat(2))) {
+      const docsForWord = postings.get(word)
+      docsForWord?.delete(id)
+      if (docsForWord?.size === 0) {
+        postings.delete(word)
+        sortedTerms = null
+      }
+    }
+  }
+
+  // Words of the index starting with `prefix` (binary search in the sorted words)
+  function termsWithPrefix(prefix: string): string[] {
+    if (!sortedTerms) sortedTerms = [...postings.keys()].sort()
+
+    let low = 0
+    let high = sortedTerms.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (sortedTerms[middle] < prefix) low = middle + 1
+      else high = middle
+    }
+
+    const result: string[] = []
+    for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+      result.push(sortedTerms[i])
+    }
+    return result
+  }
+
+  function fieldsScore(fields: Iterable<SearchField>): number {
+    let score = 0
+    for (const field of fields) score += FIELD_WEIGHTS[field]
+    return score
+  }
+
+  function scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>()
+    for (const word of termsWithPrefix(term)) {
+      const factor = word === term ? 1 : PREFIX_FACTOR
+      for (const [id, fields] of postings.get(word)!) {
+        scores.set(id, Math.max(scores.get(id) ?? 0, fieldsScore(fields) * factor))
+      }
+    }
+    return scores
+  }
+
+  function scorePhrase(phrase: string[]): Map<string, number> {
+    const scores = new Map<string, number>()
+    for (const id of postings.get(phrase[0])?.keys() ?? []) {
+      const { fields } = docs.get(id)!
+      const matched = (Object.keys(fields) as SearchField[])
+        .filter(field => fields[field].some(words => containsPhrase(words, phrase)))
+      // Longer phrases are more specific
+      if (matched.length > 0) scores.set(id, fieldsScore(matched) * phrase.length)
+    }
+    return scores
+  }
+
+  return {
+    // Sync the index with the recipes: only new, changed or removed recipes are (re)indexed
+    update(recipes: RecipeWithMeta[]) {
+      const ids = new Set(recipes.map(r => r.id))
+      for (const id of [...docs.keys()]) {
+        if (!ids.has(id)) remove(id)
+      }
+      for (const recipe of recipes) {
+        // Store updates replace changed recipes, unchanged ones keep the same object
+        if (docs.get(recipe.id)?.recipe === recipe) continue
+        remove(recipe.id)
+        add(recipe)
+      }
+    },
+
+    // Recipes matching every word and phrase of the query, best first
+    search(query: string | SearchQuery): SearchResult[] {
+      const parsed = typeof query === 'string' ? parseQuery(query) : query
+      if (isEmptyQuery(parsed)) return []
+
+      let scores: Map<string, number> | null = null
+      for (const term of parsed.terms) scores = intersect(scores, scoreTerm(term))
+      for (const phrase of parsed.phrases) scores = intersect(scores, scorePhrase(phrase))
+
+      return [...scores!]
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score)
+    },
+
+    get size() {
+      return docs.size
+    }
+  }
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>
+
+// ============ HIGHLIGHT ============
+
+function queryPatterns(query: SearchQuery): RegExp[] {
+  // Words only contain [a-z0-9]: nothing to escape
+  return [
+    ...query.terms.map(term => new RegExp(`(?<![a-z0-9])${term}`, 'g')),
+    ...query.phrases.map(phrase => new RegExp(`(?<![a-z0-9])${phrase.join('[^a-z0-9]+')}(?![a-z0-9])`, 'g'))
+  ]
+}
+
+// Parts of the original text matching the query (accents and case kept)
+export function highlightText(text: string, query: SearchQuery): HighlightSegment[] {
+  if (isEmptyQuery(query)) return [{ text, match: false }]
+
+  // Folded text, with the position in the original text of each folded character
+  let folded = ''
+  const origins: number[] = []
+  let position = 0
+  for (const char of text) {
+    const foldedChar = foldText(char)
+    folded += foldedChar
+    for (let i = 0; i < foldedChar.length; i++) origins.push(position)
+    position += char.length
+  }
+  origins.push(text.length)
+
+  const matched = new Array<boolean>(text.length).fill(false)
+  for (const pattern of queryPatterns(query)) {
+    for (const match of folded.matchAll(pattern)) {
+      const start = origins[match.index!]
+      const end = origins[match.index! + match[0].length]
+      matched.fill(true, start, end)
+    }
+  }
+
+  const segments: HighlightSegment[] = []
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1]
+    if (last && last.match === matched[i]) last.text += text[i]
+    else segments.push({ text: text[i], match: matched[i] })
+  }
+  return segments
+}
+
+export function matchesText(text: string, query: SearchQuery): boolean {
+  return highlightText(text, query).some(segment => segment.match)
+}
+
+// Where the query matched, for recipes found by something not shown on the card
+export function findSnippet(recipe: RecipeWithMeta, query: SearchQuery): { field: SearchField; text: string } | null {
+  if (isEmptyQuery(query) || matchesText(recipe.title, query)) return null
+
+  const ingredient = recipe.ingredients.find(i => matchesText(i.name, query))
+  if (ingredient) return { field: 'ingredients', text: ingredient.name }
+
+  const texts: [SearchField, string][] = [
+    ...recipe.steps.map(step => ['steps', step] as [SearchField, string]),
+    ...(recipe.notes ? [['notes', recipe.notes] as [SearchField, string]] : [])
+  ]
+  for (const [field, text] of texts) {
+    const segments = highlightText(text, query)
+    const index = segments.findIndex(segment => segment.match)
+    if (index < 0) continue
+
+    // Excerpt around the first match
+    const matchStart = segments.slice(0, index).reduce((length, segment) => length + segment.text.length, 0)
+    let start = Math.max(0, matchStart - SNIPPET_CONTEXT)
+    let end = Math.min(text.length, matchStart + segments[index].text.length + SNIPPET_CONTEXT)
+    // Whole words only
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start
+    const lastSpace = text.lastIndexOf(' ', end)
+    if (end < text.length && lastSpace > matchStart) end = lastSpace
+    return { field, text: `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}` }
+  }
+  return null
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { buildShoppingItems, normalizeIngredientName, guessCategory } from './shoppingGenerator'
+import { makeRecipe } from './__fixtures__/recipes'
+
+const gratin = makeRecipe('Gratin', {
+  ingredients: [
+    { name: 'pommes de terre', quantity: 1, unit: 'kg' },
+    { name: 'lait', quantity: 50, unit: 'cl' }
+  ]
+})
+
+const soupe = makeRecipe('Soupe', {
+  ingredients: [
+    { name: 'Pommes de terre', quantity: 300, unit: 'g' },
+    { name: 'poireaux', quantity: 2, unit: '' }
+  ]
+})
+
+describe('normalizeIngredientName', () => {
+  it('should ignore case, plural and articles', () => {
+    expect(normalizeIngredientName('Les Tomates')).toBe('tomate')
+    expect(normalizeIngredientName('du beurre')).toBe('beurre')
+  })
+})
+
+describe('guessCategory', () => {
+  it('should find the category from keywords', () => {
+    expect(guessCategory('Poulet fermier')).toBe('Viandes & Poissons')
+    expect(guessCategory('inconnu')).toBe('Autres')
+  })
+})
+
+describe('buildShoppingItems', () => {
+  it('should merge identical ingredients across recipes', () => {
+    const items = buildShoppingItems([{ recipe: gratin }, { recipe: soupe }])
+    const potatoes = items.find(i => i.name === 'pommes de terre')
+    expect(potatoes).toMatchObject({ quantity: 1.3, unit: 'kg', fromRecipes: ['Gratin', 'Soupe'] })
+    expect(items).toHaveLength(3)
+  })
+
+  it('should count a recipe planned twice twice', () => {
+    const items = buildShoppingItems([
+      { recipe: soupe, meal: 'lundi 14 midi' },
+      { recipe: soupe, meal: 'jeudi 17 soir' }
+    ])
+    const leeks = items.find(i => i.name === 'poireaux')
+    expect(leeks?.quantity).toBe(4)
+    expect(leeks?.fromRecipes).toEqual(['Soupe'])
+    expect(leeks?.fromMeals).toEqual(['lundi 14 midi', 'jeudi 17 soir'])
+  })
+
+  it('should scale quantities to the servings of each meal', () => {
+    const items = buildShoppingItems([
+      { recipe: soupe, meal: 'lundi 14 midi', servings: 2 },
+      { recipe: soupe, meal: 'jeudi 17 soir', servings: 8 }
+    ])
+    expect(items.find(i => i.name === 'poireaux')?.quantity).toBe(5)
+    expect(items.find(i => i.name === 'Pommes de terre')).toMatchObject({ quantity: 750, unit: 'g' })
+  })
+
+  it('should not set meals when generating from recipes', () => {
+    const items = buildShoppingItems([{ recipe: gratin }])
+    expect(items.every(i => i.fromMeals === undefined)).toBe(true)
+  })
+
+  it('should expand sub-recipes with their own ingredients', () => {
+    const bechamel = makeRecipe('Béchamel', { servings: 2, ingredients: [{ name: 'lait', quantity: 50, unit: 'cl' }] })
+    const lasagnes = makeRecipe('Lasagnes', { ingredients: [{ name: 'béchamel', quantity: 4, unit: 'portions', recipeId: 'Béchamel' }] })
+
+    const items = buildShoppingItems([{ recipe: gratin }, { recipe: lasagnes, servings: 2 }], [bechamel, lasagnes])
+    expect(items.find(i => i.name === 'lait')).toMatchObject({ quantity: 1, unit: 'L', fromRecipes: ['Gratin', 'Lasagnes'] })
+    expect(items.some(i => i.name === 'béchamel')).toBe(false)
+  })
+
+  it('should sort items by category', () => {
+    const categories = buildShoppingItems([{ recipe: gratin }, { recipe: soupe }]).map(i => i.category)
+    expect(categories).toEqual([...categories].sort())
+  })
+})
@@ -0,0 +1,86 @@
+// Shopping list generation
+// Aggregates the ingredients of several recipes into shopping items
+
+import { v4 as uuidv4 } from 'uuid'
+import { sumQuantities, type Quantity } from './units'
+import { expandIngredients } from './subRecipes'
+import type { ShoppingItem } from './storage'
+import type { Recipe } from '../types'
+
+// One recipe to cook; the same recipe can appear several times (planned twice)
+export interface ShoppingSource {
+  recipe: Recipe
+  meal?: string // ex: "lundi 14 midi"
+  servings?: number // portions cuisinées, défaut: portions de la recette
+}
+
+export function normalizeIngredientName(name: string): string {
+  return name.toLowerCase().trim()
+    .replace(/s$/, '')
+    .replace(/^(du|de la|des|le|la|les|un|une|d')\s+/i, '')
+}
+
+export function guessCategory(name: string): string {
+  const lower = name.toLowerCase()
+  const categories: Record<string, string[]> = {
+    'Fruits & Legumes': ['tomate', 'carotte', 'oignon', 'ail', 'pomme', 'banane', 'salade', 'courgette', 'poivron', 'champignon', 'citron', 'orange', 'pomme de terre', 'patate', 'poireau', 'chou', 'brocoli', 'haricot', 'petit pois', 'epinard', 'avocat', 'concombre', 'aubergine', 'celeri', 'fenouil', 'gingembre', 'echalote'],
+    'Viandes & Poissons': ['poulet', 'boeuf', 'porc', 'veau', 'agneau', 'canard', 'dinde', 'saumon', 'thon', 'cabillaud', 'crevette', 'poisson', 'viande', 'lardons', 'jambon', 'saucisse', 'merguez', 'steak'],
+    'Produits laitiers': ['lait', 'fromage', 'beurre', 'creme', 'yaourt', 'oeuf', 'parmesan', 'mozzarella', 'gruyere', 'chevre'],
+    'Epicerie': ['riz', 'pate', 'farine', 'sucre', 'sel', 'poivre', 'huile', 'vinaigre', 'moutarde', 'sauce', 'conserve', 'tomate pelees', 'concentre', 'bouillon', 'epice', 'herbe', 'basilic', 'persil', 'thym', 'romarin', 'curry', 'paprika', 'cumin'],
+    'Boulangerie': ['pain', 'baguette', 'brioche', 'croissant'],
+    'Boissons': ['eau', 'jus', 'vin', 'biere', 'soda', 'cafe', 'the'],
+    'Surgeles': ['glace', 'surgele', 'congele']
+  }
+  for (const [category, keywords] of Object.entries(categories)) {
+    if (keywords.some(kw => lower.includes(kw))) {
+      return category
+    }
+  }
+  return 'Autres'
+}
+
+function addUnique(list: string[], value: string | undefined) {
+  if (value && !list.includes(value)) list.push(value)
+}
+
+// Build shopping items sorted by category.
+// Sub-recipes are looked up in `recipes` and replaced by their ingredients
+export function buildShoppingItems(sources: ShoppingSource[], recipes: Recipe[] = []): ShoppingItem[] {
+  const ingredientMap = new Map<string, { name: string; quantities: Quantity[]; recipes: string[]; meals: string[] }>()
+  const recipesById = new Map(recipes.map(r => [r.id, r]))
+
+  for (const { recipe, meal, servings } of sources) {
+    for (const ing of expandIngredients(recipe, recipesById, servings)) {
+      const key = normalizeIngredientName(ing.name)
+      let entry = ingredientMap.get(key)
+      if (!entry) {
+        entry = { name: ing.name, quantities: [], recipes: [], meals: [] }
+        ingredientMap.set(key, entry)
+      }
+
+      entry.quantities.push({ quantity: ing.quantity, unit: ing.unit })
+      addUnique(entry.recipes, recipe.title)
+      addUnique(entry.meals, meal)
+    }
+  }
+
+  // Convert compatible units before summing (200 g + 0.5 kg = 700 g),
+  // incompatible ones (2 gousses + 10 g) become separate items
+  const items: ShoppingItem[] = Array.from(ingredientMap.values()).flatMap(({ name, quantities, recipes, meals }) =>
+    sumQuantities(quantities).map(({ quantity, unit }) => {
+      const item: ShoppingItem = {
+        id: uuidv4(),
+        name,
+        quantity,
+        unit,
+        checked: false,
+        category: guessCategory(name),
+        fromRecipes: recipes
+      }
+      if (meals.length > 0) item.fromMeals = meals
+      return item
+    })
+  )
+
+  return items.sort((a, b) => (a.category || 'zzz').localeCompare(b.category || 'zzz'))
+}
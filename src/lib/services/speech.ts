@@ -0,0 +1,114 @@
+// Web Speech API for the cooking mode: reading steps aloud and listening for commands.
+// Recognition is not in TypeScript's DOM types (Chrome and Safari name it webkitSpeechRecognition)
+
+interface RecognitionAlternative {
+  transcript: string
+}
+
+interface RecognitionEvent {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<RecognitionAlternative> & { isFinal: boolean }>
+}
+
+interface Recognition {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  maxAlternatives: number
+  onresult: ((event: RecognitionEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start: () => void
+  stop: () => void
+}
+
+type RecognitionConstructor = new () => Recognition
+
+export interface VoiceListener {
+  start: () => void
+  stop: () => void
+}
+
+const LANG = 'fr-FR'
+
+function getRecognitionConstructor(): RecognitionConstructor | null {
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor }
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null
+}
+
+export function isVoiceControlSupported(): boolean {
+  return 'speechSynthesis' in window && getRecognitionConstructor() !== null
+}
+
+// ============ SYNTHESIS ============
+
+export function speak(text: string) {
+  if (!('speechSynthesis' in window)) return
+  speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = LANG
+  const voice = speechSynthesis.getVoices().find(v => v.lang.startsWith('fr'))
+  if (voice) utterance.voice = voice
+  speechSynthesis.speak(utterance)
+}
+
+export function stopSpeaking() {
+  if ('speechSynthesis' in window) speechSynthesis.cancel()
+}
+
+// The recognition also hears the synthesis: what is heard meanwhile is ignored
+export function isSpeaking(): boolean {
+  return 'speechSynthesis' in window && speechSynthesis.speaking
+}
+
+// ============ RECOGNITION ============
+
+// Listen until stopped (the browser ends recognition after a silence: it is restarted).
+// Each final result is passed with its alternatives
+export function createVoiceListener({
+  onResult,
+  onError
+}: {
+  onResult: (transcripts: string[]) => void
+  onError: (error: string) => void
+}): VoiceListener {
+  const Constructor = getRecognitionConstructor()
+  let recognition: Recognition | null = null
+  let listening = false
+
+  function start() {
+    if (!Constructor || listening) return
+    listening = true
+    recognition = new Constructor()
+    recognition.lang = LANG
+    recognition.continuous = true
+    recognition.interimResults = false
+    recognition.maxAlternatives = 3
+
+    recognition.onresult = event => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (!result.isFinal) continue
+        onResult(Array.from(result, alternative => alternative.transcript))
+      }
+    }
+    recognition.onerror = event => {
+      // Silence is not an error
+      if (event.error === 'no-speech' || event.error === 'aborted') return
+      listening = false
+      onError(event.error)
+    }
+    recognition.onend = () => {
+      if (listening) recognition?.start()
+    }
+    recognition.start()
+  }
+
+  function stop() {
+    listening = false
+    recognition?.stop()
+    recognition = null
+  }
+
+  return { start, stop }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { matchStepIngredients, getStepIngredients, getLastStepByIngredient } from './stepIngredients'
+import { ingredients } from './__fixtures__/recipes'
+
+describe('matchStepIngredients', () => {
+  it('should find ingredients despite plurals and accents', () => {
+    const list = ingredients('Oeufs', 'crème fraîche', 'poireau', 'sucre')
+    expect(matchStepIngredients('Battre les œufs avec la creme', list)).toEqual([0, 1])
+    expect(matchStepIngredients('Émincer les poireaux', list)).toEqual([2])
+  })
+
+  it('should match the main word of a longer name', () => {
+    const list = ingredients('beurre doux', 'gousses d\'ail', 'huile d\'olive', 'pincée de sel')
+    expect(matchStepIngredients('Faire fondre le beurre avec l\'ail, saler', list)).toEqual([0, 1])
+    expect(matchStepIngredients('Arroser d\'un filet d\'huile et ajouter le sel', list)).toEqual([2, 3])
+  })
+
+  it('should not take a longer name for a shorter one', () => {
+    const list = ingredients('pommes', 'pommes de terre')
+    expect(matchStepIngredients('Éplucher les pommes de terre', list)).toEqual([1])
+    expect(matchStepIngredients('Couper les pommes et les pommes de terre', list)).toEqual([0, 1])
+  })
+
+  it('should ignore words that are not ingredients', () => {
+    expect(matchStepIngredients('Préchauffer le four à 180°C', ingredients('farine', 'lait'))).toEqual([])
+  })
+})
+
+describe('getStepIngredients', () => {
+  it('should prefer ingredients chosen by hand', () => {
+    const recipe = {
+      ingredients: ingredients('farine', 'lait', 'sel'),
+      steps: ['Mélanger la farine et le lait', 'Laisser reposer', 'Saler'],
+      stepIngredients: [null, [1], null]
+    }
+    const steps = getStepIngredients(recipe)
+    expect(steps).toEqual([[0, 1], [1], []])
+    expect(getLastStepByIngredient(3, steps)).toEqual([0, 1, -1])
+  })
+})
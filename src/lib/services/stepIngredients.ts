@@ -0,0 +1,81 @@
+// Ingredients used by each step
+// Found from the ingredient names written in the step ("Faire fondre le beurre"), unless
+// chosen by hand in the edit form (recipe.stepIngredients).
+
+import { findWordSequence, singularWords } from './searchIndex'
+import type { Ingredient, Recipe } from '../types'
+
+// Leading words of an amount, not of the ingredient ("gousses d'ail", "pincée de sel")
+const AMOUNT_WORDS = new Set([
+  'gousse', 'pincee', 'brin', 'branche', 'feuille', 'tranche', 'botte', 'boite', 'sachet',
+  'morceau', 'poignee', 'cube', 'filet', 'zeste', 'trait', 'cuillere', 'verre', 'bol', 'tasse'
+])
+const LINK_WORDS = new Set(['de', 'd', 'du', 'des', 'a', 'au', 'aux', 'en'])
+const ARTICLES = new Set(['le', 'la', 'les', 'l', 'un', 'une', 'du', 'des', 'de', 'd'])
+
+// Main word of an ingredient: "beurre doux" -> "beurre", "gousses d'ail" -> "ail"
+function mainWord(nameWords: string[]): string | undefined {
+  let i = 0
+  while (i < nameWords.length && ARTICLES.has(nameWords[i])) i++
+  if (AMOUNT_WORDS.has(nameWords[i]) && i + 1 < nameWords.length) {
+    i++
+    while (i < nameWords.length && LINK_WORDS.has(nameWords[i])) i++
+  }
+  return nameWords[i]
+}
+
+// Words already taken by another ingredient are skipped
+function findSequence(stepWords: string[], nameWords: string[], used: boolean[]): number {
+  return findWordSequence(stepWords, nameWords, (word, wanted, index) => word === wanted && !used[index])
+}
+
+// Indexes of the ingredients named in a step. Whole names are matched first, so
+// "pommes de terre" in the step is not also taken for "pommes"
+export function matchStepIngredients(step: string, ingredients: Ingredient[]): number[] {
+  const stepWords = singularWords(step)
+  const used = stepWords.map(() => false)
+  const matched = new Set<number>()
+
+  const candidates = ingredients
+    .map((ingredient, index) => ({ index, nameWords: singularWords(ingredient.name) }))
+    .filter(c => c.nameWords.length > 0)
+    .sort((a, b) => b.nameWords.length - a.nameWords.length)
+
+  // Whole name, then its main word
+  for (const { index, nameWords } of candidates) {
+    const start = findSequence(stepWords, nameWords, used)
+    if (start < 0) continue
+    nameWords.forEach((_, j) => { used[start + j] = true })
+    matched.add(index)
+  }
+  for (const { index, nameWords } of candidates) {
+    if (matched.has(index)) continue
+    const main = mainWord(nameWords)
+    if (!main || main.length < 2) continue
+    const position = findSequence(stepWords, [main], used)
+    if (position < 0) continue
+    used[position] = true
+    matched.add(index)
+  }
+
+  return [...matched].sort((a, b) => a - b)
+}
+
+// Ingredients of each step: chosen by hand, or found in the text
+export function getStepIngredients(recipe: Pick<Recipe, 'steps' | 'ingredients' | 'stepIngredients'>): number[][] {
+  return recipe.steps.map((step, i) => {
+    const chosen = recipe.stepIngredients?.[i]
+    return chosen
+      ? chosen.filter(index => index >= 0 && index < recipe.ingredients.length)
+      : matchStepIngredients(step, recipe.ingredients)
+  })
+}
+
+// Last step using each ingredient (-1 if none): it is used up once that step is passed
+export function getLastStepByIngredient(ingredientCount: number, stepIngredients: number[][]): number[] {
+  const last = new Array<number>(ingredientCount).fill(-1)
+  stepIngredients.forEach((indexes, step) => {
+    for (const index of indexes) last[index] = step
+  })
+  return last
+}
@@ -2,7 +2,7 @@ import { openDB, type IDBPDatabase } from 'idb'
 import type { Recipe, RecipeMetadata, RecipeWithMeta } from '../types'
 
 const DB_NAME = 'recettes-db'
-const DB_VERSION = 1
+const DB_VERSION = 6
 
 interface RecettesDB {
   recipes: {
@@ -24,6 +24,32 @@ interface RecettesDB {
     key: string
     value: ShoppingList
   }
+  pantry: {
+    key: string
+    value: PantryItem
+  }
+  outbox: {
+    key: number
+    value: OutboxEntry
+  }
+  images: {
+    key: string
+    value: ImageAsset
+    indexes: { 'by-synced': number }
+  }
+  thumbnails: {
+    key: string
+    value: { id: string; blob: Blob }
+  }
+  revisions: {
+    key: string
+    value: RecipeRevision
+    indexes: { 'by-recipe': string }
+  }
+  timers: {
+    key: string
+    value: CookingTimer
+  }
 }
 
 export interface PlanningEntry {
@@ -32,6 +58,7 @@ export interface PlanningEntry {
   day: number // 0-6
   slot: 'lunch' | 'dinner'
   recipeId: string
+  servings?: number
 }
 
 export interface ShoppingItem {
@@ -42,6 +69,8 @@ export interface ShoppingItem {
   checked: boolean
   category?: string
   fromRecipes?: string[] // recipe titles
+  fromMeals?: string[] // planned meals, ex: "lundi 14 midi"
+  addedToPantry?: boolean // put away in the pantry once bought
 }
 
 export type ShoppingListStatus = 'active' | 'completed' | 'archived'
@@ -55,6 +84,58 @@ export interface ShoppingList {
   items: ShoppingItem[]
 }
 
+// Food we already have at home
+export interface PantryItem {
+  id: string
+  name: string
+  quantity?: number // none: "some", covers any quantity
+  unit?: string
+  expiresAt?: string // ISO date (YYYY-MM-DD)
+  createdAt: string
+  updatedAt?: string
+}
+
+export type DataStoreName = 'recipes' | 'metadata' | 'planning' | 'shoppingLists' | 'pantry'
+
+// Change waiting to be sent to GitHub
+export interface OutboxEntry {
+  seq?: number // auto-increment, gives the replay order
+  store: DataStoreName
+  type: 'save' | 'delete'
+  id: string
+  record?: unknown // saved record (JSON clone)
+  createdAt: string
+}
+
+// Recipe image, named after its content (see imageStore.ts)
+export interface ImageAsset {
+  id: string // "<sha256>.<ext>"
+  blob: Blob
+  synced: number // 1 once sent to the server (number, booleans cannot be indexed)
+  createdAt: string
+}
+
+// Saved version of a recipe (kept on this device, or read from the GitHub history)
+export interface RecipeRevision {
+  id: string // uuid, commit sha for GitHub
+  recipeId: string
+  savedAt: string // ISO date
+  recipe: Recipe
+  author?: string // GitHub commit author
+  message?: string // GitHub commit message
+}
+
+// Running cooking timer (see timers.ts)
+export interface CookingTimer {
+  id: string
+  label: string // "Étape 3 · Risotto", editable
+  duration: number // seconds
+  endsAt: number // deadline (ms since epoch), not a countdown: stays right when the tab sleeps
+  recipeId?: string
+  step?: number // index of the step in the recipe
+  createdAt: string
+}
+
 let dbPromise: Promise<IDBPDatabase<RecettesDB>> | null = null
 
 function getDB() {
@@ -83,6 +164,36 @@ function getDB() {
         if (!db.objectStoreNames.contains('shoppingLists')) {
           db.createObjectStore('shoppingLists', { keyPath: 'id' })
         }
+
+        // Pantry store
+        if (!db.objectStoreNames.contains('pantry')) {
+          db.createObjectStore('pantry', { keyPath: 'id' })
+        }
+
+        // Sync outbox (changes not yet sent to GitHub)
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true })
+        }
+
+        // Recipe images, and thumbnails generated from them (never synced)
+        if (!db.objectStoreNames.contains('images')) {
+          const imageStore = db.createObjectStore('images', { keyPath: 'id' })
+          imageStore.createIndex('by-synced', 'synced')
+        }
+        if (!db.objectStoreNames.contains('thumbnails')) {
+          db.createObjectStore('thumbnails', { keyPath: 'id' })
+        }
+
+        // Recipe revisions (never synced)
+        if (!db.objectStoreNames.contains('revisions')) {
+          const revisionStore = db.createObjectStore('revisions', { keyPath: 'id' })
+          revisionStore.createIndex('by-recipe', 'recipeId')
+        }
+
+        // Cooking timers (never synced)
+        if (!db.objectStoreNames.contains('timers')) {
+          db.createObjectStore('timers', { keyPath: 'id' })
+        }
       }
     })
   }
@@ -176,6 +287,11 @@ export async function getAllRecipesWithMeta(): Promise<RecipeWithMeta[]> {
 
 // ============ PLANNING ============
 
+export async function getAllPlanning(): Promise<PlanningEntry[]> {
+  const db = await getDB()
+  return db.getAll('planning')
+}
+
 export async function getPlanningForWeek(weekStart: string): Promise<PlanningEntry[]> {
   const db = await getDB()
   const index = db.transaction('planning').store.index('by-week')
@@ -218,6 +334,25 @@ export async function deleteShoppingList(id: string): Promise<void> {
   await db.delete('shoppingLists', id)
 }
 
+// ============ PANTRY ============
+
+export async function getAllPantryItems(): Promise<PantryItem[]> {
+  const db = await getDB()
+  return db.getAll('pantry')
+}
+
+export async function savePantryItem(item: PantryItem): Promise<void> {
+  const db = await getDB()
+  // Deep clone to remove Svelte 5 Proxy (cannot be stored in IndexedDB)
+  const plainItem = JSON.parse(JSON.stringify(item))
+  await db.put('pantry', plainItem)
+}
+
+export async function deletePantryItem(id: string): Promise<void> {
+  const db = await getDB()
+  await db.delete('pantry', id)
+}
+
 // ============ EXPORT / IMPORT ============
 
 export interface ExportData {
@@ -227,16 +362,18 @@ export interface ExportData {
   metadata: RecipeMetadata[]
   planning: PlanningEntry[]
   shoppingLists: ShoppingList[]
+  pantry?: PantryItem[] // missing in exports made before the pantry existed
 }
 
 export async function exportAllData(): Promise<ExportData> {
   const db = await getDB()
 
-  const [recipes, metadata, planning, shoppingLists] = await Promise.all([
+  const [recipes, metadata, planning, shoppingLists, pantry] = await Promise.all([
     db.getAll('recipes'),
     db.getAll('metadata'),
     db.getAll('planning'),
-    db.getAll('shoppingLists')
+    db.getAll('shoppingLists'),
+    db.getAll('pantry')
   ])
 
   return {
@@ -245,34 +382,198 @@ export async function exportAllData(): Promise<ExportData> {
     recipes,
     metadata,
     planning,
-    shoppingLists
+    shoppingLists,
+    pantry
   }
 }
 
 export async function importAllData(data: ExportData): Promise<void> {
   const db = await getDB()
 
-  const tx = db.transaction(['recipes', 'metadata', 'planning', 'shoppingLists'], 'readwrite')
+  const tx = db.transaction(['recipes', 'metadata', 'planning', 'shoppingLists', 'pantry'], 'readwrite')
 
   await Promise.all([
     ...data.recipes.map(r => tx.objectStore('recipes').put(r)),
     ...data.metadata.map(m => tx.objectStore('metadata').put(m)),
     ...data.planning.map(p => tx.objectStore('planning').put(p)),
     ...data.shoppingLists.map(s => tx.objectStore('shoppingLists').put(s)),
+    ...(data.pantry ?? []).map(i => tx.objectStore('pantry').put(i)),
     tx.done
   ])
 }
 
+// Replace everything with a fresh copy (remote pull), unless changes are waiting in the outbox.
+// The outbox is checked in the same transaction, so a change saved meanwhile is never overwritten
+export async function replaceAllData(data: ExportData): Promise<boolean> {
+  const db = await getDB()
+
+  const tx = db.transaction(['recipes', 'metadata', 'planning', 'shoppingLists', 'pantry', 'outbox'], 'readwrite')
+  if (await tx.objectStore('outbox').count() > 0) {
+    await tx.done
+    return false
+  }
+
+  await Promise.all([
+    tx.objectStore('recipes').clear(),
+    tx.objectStore('metadata').clear(),
+    tx.objectStore('planning').clear(),
+    tx.objectStore('shoppingLists').clear(),
+    tx.objectStore('pantry').clear(),
+    ...data.recipes.map(r => tx.objectStore('recipes').put(r)),
+    ...data.metadata.map(m => tx.objectStore('metadata').put(m)),
+    ...data.planning.map(p => tx.objectStore('planning').put(p)),
+    ...data.shoppingLists.map(s => tx.objectStore('shoppingLists').put(s)),
+    ...(data.pantry ?? []).map(i => tx.objectStore('pantry').put(i)),
+    tx.done
+  ])
+  return true
+}
+
 export async function clearAllData(): Promise<void> {
   const db = await getDB()
 
-  const tx = db.transaction(['recipes', 'metadata', 'planning', 'shoppingLists'], 'readwrite')
+  const tx = db.transaction(['recipes', 'metadata', 'planning', 'shoppingLists', 'pantry'], 'readwrite')
 
   await Promise.all([
     tx.objectStore('recipes').clear(),
     tx.objectStore('metadata').clear(),
     tx.objectStore('planning').clear(),
     tx.objectStore('shoppingLists').clear(),
+    tx.objectStore('pantry').clear(),
     tx.done
   ])
 }
+
+// ============ SYNC OUTBOX ============
+
+export async function addOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await getDB()
+  // Deep clone to remove Svelte 5 Proxy (cannot be stored in IndexedDB)
+  const plainEntry = JSON.parse(JSON.stringify(entry))
+  await db.add('outbox', plainEntry)
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const db = await getDB()
+  return db.getAll('outbox')
+}
+
+export async function countOutboxEntries(): Promise<number> {
+  const db = await getDB()
+  return db.count('outbox')
+}
+
+export async function deleteOutboxEntries(seqs: number[]): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction('outbox', 'readwrite')
+  await Promise.all([
+    ...seqs.map(seq => tx.store.delete(seq)),
+    tx.done
+  ])
+}
+
+// ============ IMAGES ============
+
+export async function getImage(id: string): Promise<ImageAsset | undefined> {
+  const db = await getDB()
+  return db.get('images', id)
+}
+
+export async function saveImage(image: ImageAsset): Promise<void> {
+  const db = await getDB()
+  await db.put('images', image)
+}
+
+// Images not yet sent to the server
+export async function getUnsyncedImages(): Promise<ImageAsset[]> {
+  const db = await getDB()
+  return db.getAllFromIndex('images', 'by-synced', 0)
+}
+
+export async function markImageSynced(id: string): Promise<void> {
+  const db = await getDB()
+  const image = await db.get('images', id)
+  if (image) {
+    await db.put('images', { ...image, synced: 1 })
+  }
+}
+
+// Send every image again (new remote backend)
+export async function markAllImagesUnsynced(): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction('images', 'readwrite')
+  let cursor = await tx.store.openCursor()
+  while (cursor) {
+    await cursor.update({ ...cursor.value, synced: 0 })
+    cursor = await cursor.continue()
+  }
+  await tx.done
+}
+
+// Image not used anymore, with its thumbnail
+export async function deleteImage(id: string): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction(['images', 'thumbnails'], 'readwrite')
+  await Promise.all([
+    tx.objectStore('images').delete(id),
+    tx.objectStore('thumbnails').delete(id),
+    tx.done
+  ])
+}
+
+export async function getThumbnail(id: string): Promise<Blob | undefined> {
+  const db = await getDB()
+  return (await db.get('thumbnails', id))?.blob
+}
+
+export async function saveThumbnail(id: string, blob: Blob): Promise<void> {
+  const db = await getDB()
+  await db.put('thumbnails', { id, blob })
+}
+
+// ============ REVISIONS ============
+
+// Newest first
+export async function getRecipeRevisions(recipeId: string): Promise<RecipeRevision[]> {
+  const db = await getDB()
+  const revisions = await db.getAllFromIndex('revisions', 'by-recipe', recipeId)
+  return revisions.sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+export async function getAllRecipeRevisions(): Promise<RecipeRevision[]> {
+  const db = await getDB()
+  return db.getAll('revisions')
+}
+
+export async function saveRecipeRevision(revision: RecipeRevision): Promise<void> {
+  const db = await getDB()
+  // Deep clone to remove Svelte 5 Proxy (cannot be stored in IndexedDB)
+  await db.put('revisions', JSON.parse(JSON.stringify(revision)))
+}
+
+export async function deleteRecipeRevisions(ids: string[]): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction('revisions', 'readwrite')
+  await Promise.all([
+    ...ids.map(id => tx.store.delete(id)),
+    tx.done
+  ])
+}
+
+// ============ TIMERS ============
+
+export async function getAllTimers(): Promise<CookingTimer[]> {
+  const db = await getDB()
+  return db.getAll('timers')
+}
+
+export async function saveTimer(timer: CookingTimer): Promise<void> {
+  const db = await getDB()
+  // Deep clone to remove Svelte 5 Proxy (cannot be stored in IndexedDB)
+  await db.put('timers', JSON.parse(JSON.stringify(timer)))
+}
+
+export async function deleteTimer(id: string): Promise<void> {
+  const db = await getDB()
+  await db.delete('timers', id)
+}
@@ -0,0 +1,160 @@
+// Storage backends
+// Every backend stores the same data (recipes, metadata, planning, shopping lists, pantry).
+// IndexedDB is always the local copy; at most one remote backend is synced with it.
+
+import * as local from './storage'
+import * as github from './githubStorage'
+import * as webdav from './webdavStorage'
+import type { Recipe, RecipeMetadata } from '../types'
+import type { DataStoreName, ExportData, PantryItem, PlanningEntry, RecipeRevision, ShoppingList } from './storage'
+
+export interface StorageBackend {
+  // Recipes
+  getAllRecipes(): Promise<Recipe[]>
+  saveRecipe(recipe: Recipe): Promise<void>
+  deleteRecipe(id: string): Promise<void> // also deletes its metadata
+
+  // Metadata
+  getAllMetadata(): Promise<RecipeMetadata[]>
+  saveMetadata(metadata: RecipeMetadata): Promise<void>
+
+  // Planning
+  getAllPlanning(): Promise<PlanningEntry[]>
+  savePlanningEntry(entry: PlanningEntry): Promise<void>
+  deletePlanningEntry(id: string): Promise<void>
+
+  // Shopping lists
+  getAllShoppingLists(): Promise<ShoppingList[]>
+  saveShoppingList(list: ShoppingList): Promise<void>
+  deleteShoppingList(id: string): Promise<void>
+
+  // Pantry
+  getAllPantryItems(): Promise<PantryItem[]>
+  savePantryItem(item: PantryItem): Promise<void>
+  deletePantryItem(id: string): Promise<void>
+
+  // Bulk
+  exportAllData(): Promise<ExportData>
+  importAllData(data: ExportData): Promise<void>
+}
+
+// Change replayed from the sync outbox
+export interface RecordChange {
+  type: 'save' | 'delete'
+  id: string
+  record?: unknown
+}
+
+// Backend on a server, synced with IndexedDB in the background
+export interface RemoteBackend extends StorageBackend {
+  testConnection(): Promise<{ success: boolean; error?: string }>
+  initialize(): Promise<void>
+  applyChanges(store: DataStoreName, changes: RecordChange[]): Promise<void>
+  pullAllData(): Promise<ExportData>
+  getImage(id: string): Promise<Blob | null>
+  saveImage(id: string, blob: Blob): Promise<void> // does nothing if the image is already there
+  // Previous versions of a recipe kept by the server (GitHub commits), newest first
+  getRecipeHistory?(recipeId: string): Promise<RecipeRevision[]>
+}
+
+export interface BackendDefinition {
+  id: string
+  label: string
+  // Identifies the current configuration, null when not configured
+  getConfigKey(): string | null
+  create(): RemoteBackend
+  clearConfig(): void
+}
+
+// IndexedDB, the local copy used by the app
+export const localBackend: StorageBackend = {
+  getAllRecipes: local.getAllRecipes,
+  saveRecipe: local.saveRecipe,
+  deleteRecipe: local.deleteRecipe,
+  getAllMetadata: local.getAllMetadata,
+  saveMetadata: local.saveMetadata,
+  getAllPlanning: local.getAllPlanning,
+  savePlanningEntry: local.savePlanningEntry,
+  deletePlanningEntry: local.deletePlanningEntry,
+  getAllShoppingLists: local.getAllShoppingLists,
+  saveShoppingList: local.saveShoppingList,
+  deleteShoppingList: local.deleteShoppingList,
+  getAllPantryItems: local.getAllPantryItems,
+  savePantryItem: local.savePantryItem,
+  deletePantryItem: local.deletePantryItem,
+  exportAllData: local.exportAllData,
+  importAllData: local.importAllData
+}
+
+// ============ REGISTRY ============
+
+const ACTIVE_BACKEND_KEY = 'storage-backend'
+export const LOCAL_BACKEND_ID = 'local'
+
+const definitions = new Map<string, BackendDefinition>()
+// One instance per backend, recreated when its configuration changes
+const instances = new Map<string, { configKey: string; backend: RemoteBackend }>()
+
+export function registerBackend(definition: BackendDefinition): void {
+  definitions.set(definition.id, definition)
+  instances.delete(definition.id)
+}
+
+export function getBackendDefinitions(): BackendDefinition[] {
+  return Array.from(definitions.values())
+}
+
+export function getBackendDefinition(id: string): BackendDefinition | undefined {
+  return definitions.get(id)
+}
+
+// Id of the remote backend in use ('local' when data stays on this device)
+export function getActiveBackendId(): string {
+  const stored = localStorage.getItem(ACTIVE_BACKEND_KEY)
+  if (stored) return stored
+  // Before backends were selectable, a GitHub token meant GitHub mode
+  return github.isGitHubConfigured() ? 'github' : LOCAL_BACKEND_ID
+}
+
+export function setActiveBackendId(id: string): void {
+  localStorage.setItem(ACTIVE_BACKEND_KEY, id)
+}
+
+// Remote backend to sync with, null in local mode or when not configured
+export function getActiveBackend(): RemoteBackend | null {
+  const id = getActiveBackendId()
+  const definition = definitions.get(id)
+  const configKey = definition?.getConfigKey()
+  if (!definition || !configKey) return null
+
+  const cached = instances.get(id)
+  if (cached && cached.configKey === configKey) return cached.backend
+
+  const backend = definition.create()
+  instances.set(id, { configKey, backend })
+  return backend
+}
+
+// ============ BUILT-IN BACKENDS ============
+
+registerBackend({
+  id: 'github',
+  label: 'GitHub',
+  getConfigKey: () => {
+    const config = github.getGitHubConfig()
+    return config ? JSON.stringify(config) : null
+  },
+  create: () => github.createGitHubBackend(github.getGitHubConfig()!),
+  clearConfig: github.clearGitHubConfig
+})
+
+registerBackend({
+  id: 'webdav',
+  label: 'WebDAV (Nextcloud, NAS...)',
+  getConfigKey: () => {
+    const config = webdav.getWebDAVConfig()
+    return config ? JSON.stringify(config) : null
+  },
+  create: () => webdav.createWebDAVBackend(webdav.getWebDAVConfig()!),
+  clearConfig: webdav.clearWebDAVConfig
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { expandIngredients, getSubRecipeStages, findSubRecipeCycle } from './subRecipes'
+import { makeRecipe } from './__fixtures__/recipes'
+
+// Pâte brisée for one tart (8 servings), used by a tart for 8
+const pate = makeRecipe('pate', {
+  servings: 8,
+  ingredients: [
+    { name: 'farine', quantity: 250, unit: 'g' },
+    { name: 'beurre', quantity: 125, unit: 'g' }
+  ]
+})
+const tarte = makeRecipe('tarte', {
+  servings: 8,
+  ingredients: [
+    { name: 'pâte brisée', quantity: 8, unit: 'portions', recipeId: 'pate' },
+    { name: 'pommes', quantity: 6, unit: '' }
+  ]
+})
+
+describe('expandIngredients', () => {
+  it('should replace a sub-recipe by its ingredients, scaled', () => {
+    const ingredients = expandIngredients(tarte, [pate, tarte], 4)
+    expect(ingredients).toEqual([
+      { name: 'farine', quantity: 125, unit: 'g' },
+      { name: 'beurre', quantity: 62.5, unit: 'g' },
+      { name: 'pommes', quantity: 3, unit: '' }
+    ])
+  })
+
+  it('should keep a missing or looping sub-recipe as an ingredient', () => {
+    const a = makeRecipe('a', { servings: 2, ingredients: [{ name: 'b', quantity: 2, unit: '', recipeId: 'b' }] })
+    const b = makeRecipe('b', {
+      servings: 2,
+      ingredients: [
+        { name: 'a', quantity: 1, unit: '', recipeId: 'a' },
+        { name: 'sel', quantity: 1, unit: 'pincée' }
+      ]
+    })
+    expect(expandIngredients(a, [a, b])).toEqual([
+      { name: 'a', quantity: 1, unit: '' },
+      { name: 'sel', quantity: 1, unit: 'pincée' }
+    ])
+    expect(expandIngredients(tarte, [])[0]).toEqual({ name: 'pâte brisée', quantity: 8, unit: 'portions' })
+  })
+})
+
+describe('getSubRecipeStages', () => {
+  it('should list nested sub-recipes deepest first, each once', () => {
+    const creme = makeRecipe('creme', { servings: 4, ingredients: [{ name: 'lait', quantity: 50, unit: 'cl' }] })
+    const choux = makeRecipe('choux', { servings: 10, ingredients: [{ name: 'crème', quantity: 2, unit: 'portions', recipeId: 'creme' }] })
+    const piece = makeRecipe('piece', {
+      servings: 10,
+      ingredients: [
+        { name: 'choux', quantity: 20, unit: 'portions', recipeId: 'choux' },
+        { name: 'crème', quantity: 1, unit: 'portions', recipeId: 'creme' }
+      ]
+    })
+
+    const stages = getSubRecipeStages(piece, [creme, choux, piece])
+    expect(stages.map(s => [s.recipe.id, s.servings])).toEqual([['creme', 5], ['choux', 20]])
+  })
+})
+
+describe('findSubRecipeCycle', () => {
+  it('should find a loop back to the edited recipe', () => {
+    const recipes = [pate, tarte]
+    const ingredients = [...pate.ingredients, { name: 'tarte', quantity: 1, unit: '', recipeId: 'tarte' }]
+
+    expect(findSubRecipeCycle('pate', 'pate', ingredients, recipes)).toEqual(['pate', 'tarte', 'pate'])
+    expect(findSubRecipeCycle('tarte', 'tarte', tarte.ingredients, recipes)).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+// Sub-recipes
+// An ingredient can link to another recipe (pâte brisée, béchamel...) with `recipeId`;
+// its quantity is then a number of servings of that recipe.
+
+import { getScaleRatio, scaleQuantity } from './scaling'
+import type { Ingredient, Recipe } from '../types'
+
+// A sub-recipe to prepare, for the servings needed
+export interface SubRecipeStage<T extends Recipe = Recipe> {
+  recipe: T
+  servings: number
+}
+
+function toMap<T extends Recipe>(recipes: T[] | Map<string, T>): Map<string, T> {
+  return recipes instanceof Map ? recipes : new Map(recipes.map(r => [r.id, r]))
+}
+
+// ============ INGREDIENTS ============
+
+// Ingredients to buy for `servings` of a recipe, sub-recipes replaced by their own ingredients.
+// A missing sub-recipe, or one already being expanded (cycle), stays a plain ingredient
+export function expandIngredients(
+  recipe: Recipe,
+  recipes: Recipe[] | Map<string, Recipe>,
+  servings?: number | null
+): Ingredient[] {
+  const byId = toMap(recipes)
+  const result: Ingredient[] = []
+
+  const expand = (current: Recipe, ratio: number, path: string[]) => {
+    for (const ingredient of current.ingredients) {
+      const quantity = scaleQuantity(ingredient.quantity, ratio)
+      const sub = ingredient.recipeId ? byId.get(ingredient.recipeId) : undefined
+      if (sub && !path.includes(sub.id)) {
+        expand(sub, getScaleRatio(sub.servings, quantity), [...path, sub.id])
+      } else {
+        const { recipeId, ...plain } = ingredient
+        result.push({ ...plain, quantity })
+      }
+    }
+  }
+
+  expand(recipe, getScaleRatio(recipe.servings, servings), [recipe.id])
+  return result
+}
+
+// ============ COOKING ============
+
+// Sub-recipes to prepare before a recipe, deepest first, each once (quantities added up)
+export function getSubRecipeStages<T extends Recipe>(
+  recipe: T,
+  recipes: T[] | Map<string, T>,
+  servings?: number | null
+): SubRecipeStage<T>[] {
+  const byId = toMap(recipes)
+  const stages = new Map<string, SubRecipeStage<T>>()
+
+  const visit = (current: Recipe, ratio: number, path: string[]) => {
+    for (const ingredient of current.ingredients) {
+      const sub = ingredient.recipeId ? byId.get(ingredient.recipeId) : undefined
+      if (!sub || path.includes(sub.id)) continue
+      const subServings = scaleQuantity(ingredient.quantity, ratio)
+      visit(sub, getScaleRatio(sub.servings, subServings), [...path, sub.id])
+
+      const stage = stages.get(sub.id)
+      if (stage) stage.servings += subServings
+      else stages.set(sub.id, { recipe: sub, servings: subServings })
+    }
+  }
+
+  visit(recipe, getScaleRatio(recipe.servings, servings), [recipe.id])
+  return [...stages.values()]
+}
+
+// ============ CYCLES ============
+
+// Titles of a sub-recipe loop the ingredients of a recipe would create
+// (["Tarte", "Pâte", "Tarte"]), null if none
+export function findSubRecipeCycle(
+  recipeId: string,
+  title: string,
+  ingredients: Ingredient[],
+  recipes: Recipe[] | Map<string, Recipe>
+): string[] | null {
+  const byId = toMap(recipes)
+  const visited = new Set<string>()
+
+  const search = (current: Ingredient[], path: string[]): string[] | null => {
+    for (const ingredient of current) {
+      if (!ingredient.recipeId) continue
+      if (ingredient.recipeId === recipeId) return [...path, title]
+      const sub = byId.get(ingredient.recipeId)
+      // Loops not going through this recipe are reported when editing one of theirs
+      if (!sub || visited.has(sub.id)) continue
+      visited.add(sub.id)
+      const cycle = search(sub.ingredients, [...path, sub.title])
+      if (cycle) return cycle
+    }
+    return null
+  }
+
+  return search(ingredients, [title])
+}
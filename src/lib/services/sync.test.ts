@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { enqueueChange, syncNow, getSyncStatus, onRemoteChanges } from './sync'
+import { makeRecipe } from './__fixtures__/recipes'
+import type { RecordChange, RemoteBackend } from './storageBackend'
+import type { DataStoreName, ExportData, OutboxEntry } from './storage'
+import type { Recipe } from '../types'
+
+// In-memory IndexedDB: outbox and recipes only, as used by the sync
+const db = vi.hoisted(() => ({
+  outbox: [] as OutboxEntry[],
+  seq: 0,
+  data: null as ExportData | null,
+  backend: null as RemoteBackend | null
+}))
+
+vi.mock('./storage', () => ({
+  addOutboxEntry: async (entry: OutboxEntry) => {
+    db.outbox.push({ ...entry, seq: ++db.seq })
+  },
+  getOutboxEntries: async () => [...db.outbox],
+  countOutboxEntries: async () => db.outbox.length,
+  deleteOutboxEntries: async (seqs: number[]) => {
+    db.outbox = db.outbox.filter(entry => !seqs.includes(entry.seq!))
+  },
+  // Same contract as the IndexedDB version: nothing replaced while changes are pending
+  replaceAllData: async (data: ExportData) => {
+    if (db.outbox.length > 0) return false
+    db.data = data
+    return true
+  },
+  getAllRecipes: async () => db.data?.recipes ?? [],
+  getAllRecipeRevisions: async () => [],
+  getUnsyncedImages: async () => []
+}))
+
+vi.mock('./storageBackend', () => ({
+  getActiveBackend: () => db.backend
+}))
+
+// Server keeping the recipes it receives; `failNext` makes the next write fail
+function createFakeBackend() {
+  const recipes = new Map<string, Recipe>()
+  const calls: { store: DataStoreName; changes: RecordChange[] }[] = []
+  const server = {
+    failNext: false,
+    // Run during the pull, as if the user saved something meanwhile
+    beforePull: null as (() => Promise<void>) | null
+  }
+
+  const backend = {
+    async applyChanges(store: DataStoreName, changes: RecordChange[]) {
+      if (server.failNext) {
+        server.failNext = false
+        throw new Error('Erreur réseau')
+      }
+      calls.push({ store, changes: changes.map(({ type, id }) => ({ type, id })) })
+      if (store !== 'recipes') return
+      for (const change of changes) {
+        if (change.type === 'save') recipes.set(change.id, change.record as Recipe)
+        else recipes.delete(change.id)
+      }
+    },
+    async pullAllData(): Promise<ExportData> {
+      await server.beforePull?.()
+      return { version: 1, exportedAt: '', recipes: [...recipes.values()], metadata: [], planning: [], shoppingLists: [] }
+    },
+    async saveImage() {}
+  } as unknown as RemoteBackend
+
+  return { backend, recipes, calls, server }
+}
+
+let fake: ReturnType<typeof createFakeBackend>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  db.outbox = []
+  db.data = null
+  fake = createFakeBackend()
+  db.backend = fake.backend
+})
+
+afterEach(() => {
+  vi.clearAllTimers()
+  vi.useRealTimers()
+})
+
+describe('sync', () => {
+  it('should not queue anything in local mode', async () => {
+    db.backend = null
+    await enqueueChange('recipes', 'save', 'a', makeRecipe('a', { title: 'Tarte' }))
+    expect(db.outbox).toEqual([])
+  })
+
+  it('should replay changes per store in the order they were made', async () => {
+    await enqueueChange('recipes', 'save', 'a', makeRecipe('a', { title: 'Tarte' }))
+    await enqueueChange('planning', 'delete', 'p1')
+    await enqueueChange('recipes', 'save', 'b', makeRecipe('b', { title: 'Quiche' }))
+    await enqueueChange('recipes', 'delete', 'a')
+
+    await syncNow()
+
+    expect(fake.calls).toEqual([
+      { store: 'recipes', changes: [{ type: 'save', id: 'a' }, { type: 'save', id: 'b' }, { type: 'delete', id: 'a' }] },
+      { store: 'planning', changes: [{ type: 'delete', id: 'p1' }] }
+    ])
+    expect(db.outbox).toEqual([])
+    expect(db.data?.recipes.map(r => r.id)).toEqual(['b'])
+    expect(getSyncStatus()).toMatchObject({ state: 'idle', pending: 0 })
+  })
+
+  it('should keep changes after a failure and send them on the next sync', async () => {
+    await enqueueChange('recipes', 'save', 'a', makeRecipe('a', { title: 'Tarte' }))
+    fake.server.failNext = true
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await syncNow()
+    expect(getSyncStatus()).toMatchObject({ state: 'error', pending: 1, error: 'Erreur réseau' })
+    expect(db.outbox).toHaveLength(1)
+
+    await syncNow()
+    expect(fake.recipes.has('a')).toBe(true)
+    expect(getSyncStatus()).toMatchObject({ state: 'idle', pending: 0 })
+    expect(getSyncStatus().error).toBeUndefined()
+  })
+
+  it('should not replace local data when a change was saved during the pull', async () => {
+    db.data = { version: 1, exportedAt: '', recipes: [makeRecipe('a', { title: 'Tarte' })], metadata: [], planning: [], shoppingLists: [] }
+    const listener = vi.fn()
+    const unsubscribe = onRemoteChanges(listener)
+    fake.server.beforePull = async () => {
+      fake.server.beforePull = null
+      await enqueueChange('recipes', 'save', 'a', makeRecipe('a', { title: 'Tarte fine' }))
+    }
+
+    await syncNow()
+    expect(db.data.recipes[0].title).toBe('Tarte')
+    expect(listener).not.toHaveBeenCalled()
+    expect(getSyncStatus()).toMatchObject({ state: 'pending', pending: 1 })
+
+    // Synced again shortly after
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fake.recipes.get('a')?.title).toBe('Tarte fine')
+    expect(db.outbox).toEqual([])
+    expect(listener).toHaveBeenCalledTimes(1)
+    unsubscribe()
+  })
+})
@@ -0,0 +1,179 @@
+// Background sync with the remote backend (GitHub, WebDAV...)
+// IndexedDB is the source of truth; changes are queued in an outbox and replayed
+// on the server when online, then remote changes are pulled back
+
+import * as local from './storage'
+import { getActiveBackend, type RemoteBackend } from './storageBackend'
+import { MERGE_CANCELLED } from './merge'
+import { pruneOrphanImages } from './imageStore'
+import type { DataStoreName, OutboxEntry } from './storage'
+
+export type SyncState = 'idle' | 'pending' | 'syncing' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  pending: number // changes waiting in the outbox
+  error?: string
+  lastSync?: string
+}
+
+const SYNC_DELAY = 1000 // group quick successive changes in one sync
+
+let status: SyncStatus = { state: 'idle', pending: 0 }
+const statusListeners = new Set<(status: SyncStatus) => void>()
+const pullListeners = new Set<() => void>()
+
+let running: Promise<void> | null = null
+let syncAgain = false
+let syncTimeout: ReturnType<typeof setTimeout> | undefined
+
+function setStatus(update: Partial<SyncStatus>) {
+  status = { ...status, ...update }
+  statusListeners.forEach(listener => listener(status))
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status
+}
+
+export function onSyncStatusChange(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener)
+  listener(status)
+  return () => statusListeners.delete(listener)
+}
+
+// Called after remote data has replaced the local copy
+export function onRemoteChanges(listener: () => void): () => void {
+  pullListeners.add(listener)
+  return () => pullListeners.delete(listener)
+}
+
+// Record a local change to send to the server (nothing to do in local mode)
+export async function enqueueChange(
+  store: DataStoreName,
+  type: OutboxEntry['type'],
+  id: string,
+  record?: unknown
+): Promise<void> {
+  if (!getActiveBackend()) return
+
+  await local.addOutboxEntry({ store, type, id, record, createdAt: new Date().toISOString() })
+  setStatus({
+    state: status.state === 'syncing' ? 'syncing' : 'pending',
+    pending: await local.countOutboxEntries()
+  })
+  scheduleSync()
+}
+
+function scheduleSync() {
+  clearTimeout(syncTimeout)
+  syncTimeout = setTimeout(() => syncNow(), SYNC_DELAY)
+}
+
+// Send queued changes, then pull remote changes
+export function syncNow(): Promise<void> {
+  if (running) {
+    syncAgain = true
+    return running
+  }
+
+  running = runSync().finally(() => {
+    running = null
+    if (syncAgain) {
+      syncAgain = false
+      scheduleSync()
+    }
+  })
+  return running
+}
+
+async function runSync(): Promise<void> {
+  const backend = getActiveBackend()
+  if (!backend) return
+
+  const pending = await local.countOutboxEntries()
+  if (!navigator.onLine) {
+    setStatus({ state: pending > 0 ? 'pending' : 'idle', pending })
+    return
+  }
+
+  setStatus({ state: 'syncing', pending, error: undefined })
+
+  try {
+    await uploadImages(backend)
+    await flushOutbox(backend)
+    const pulled = await pullRemote(backend)
+    const remaining = await local.countOutboxEntries()
+    setStatus({
+      state: remaining > 0 ? 'pending' : 'idle',
+      pending: remaining,
+      lastSync: new Date().toISOString()
+    })
+    if (pulled) {
+      pullListeners.forEach(listener => listener())
+    }
+  } catch (e) {
+    console.error('Erreur de synchronisation:', e)
+    setStatus({
+      // Connection lost during the sync: changes stay pending
+      state: navigator.onLine ? 'error' : 'pending',
+      pending: await local.countOutboxEntries(),
+      error: e instanceof Error ? e.message : 'Erreur inconnue'
+    })
+  }
+}
+
+// Images first, so synced recipes never reference a missing image.
+// Only images used by a recipe (or one of its saved versions) are sent
+async function uploadImages(backend: RemoteBackend): Promise<void> {
+  for (const image of await pruneOrphanImages()) {
+    await backend.saveImage(image.id, image.blob)
+    await local.markImageSynced(image.id)
+  }
+}
+
+// One write per data file, changes replayed in the order they were made
+async function flushOutbox(backend: RemoteBackend): Promise<void> {
+  const entries = await local.getOutboxEntries()
+
+  const byStore = new Map<DataStoreName, OutboxEntry[]>()
+  for (const entry of entries) {
+    byStore.set(entry.store, [...(byStore.get(entry.store) ?? []), entry])
+  }
+
+  for (const [store, storeEntries] of byStore) {
+    try {
+      await backend.applyChanges(store, storeEntries)
+    } catch (e) {
+      // Conflict resolution cancelled: drop our changes, the pull restores the remote version
+      const cancelled = e instanceof Error && e.message.includes(MERGE_CANCELLED)
+      if (!cancelled) throw e
+    }
+    await local.deleteOutboxEntries(storeEntries.map(entry => entry.seq!))
+    setStatus({ pending: await local.countOutboxEntries() })
+  }
+}
+
+// Replace the local copy with server data, unless new changes were made meanwhile
+async function pullRemote(backend: RemoteBackend): Promise<boolean> {
+  const data = await backend.pullAllData()
+  const replaced = await local.replaceAllData(data)
+  if (!replaced) syncAgain = true
+  return replaced
+}
+
+// Sync now, and again each time the connection comes back
+export function startBackgroundSync(): () => void {
+  const handleOnline = () => syncNow()
+  window.addEventListener('online', handleOnline)
+
+  local.countOutboxEntries().then(pending => {
+    setStatus({ pending, state: pending > 0 ? 'pending' : 'idle' })
+    syncNow()
+  })
+
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    clearTimeout(syncTimeout)
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { parseRecipeText } from './textRecipeParser'
+
+describe('parseRecipeText', () => {
+  it('should parse a French recipe with headings', () => {
+    const recipe = parseRecipeText(`Quiche lorraine
+
+Préparation : 20 min
+Cuisson : 35 min
+
+Ingrédients (pour 6 personnes) :
+- 1 pâte brisée
+- 200 g de lardons
+- 3 oeufs
+- 20 cl de crème
+
+Préparation :
+1. Préchauffer le four à 180°C.
+2. Faire revenir les lardons.
+3. Battre les oeufs avec la crème, verser sur la pâte et enfourner.`)
+
+    expect(recipe.title).toBe('Quiche lorraine')
+    expect(recipe.prepTime).toBe(20)
+    expect(recipe.cookTime).toBe(35)
+    expect(recipe.servings).toBe(6)
+    expect(recipe.ingredients).toEqual([
+      { quantity: 1, unit: '', name: 'pâte brisée' },
+      { quantity: 200, unit: 'g', name: 'lardons' },
+      { quantity: 3, unit: '', name: 'oeufs' },
+      { quantity: 20, unit: 'cl', name: 'crème' }
+    ])
+    expect(recipe.steps).toEqual([
+      'Préchauffer le four à 180°C.',
+      'Faire revenir les lardons.',
+      'Battre les oeufs avec la crème, verser sur la pâte et enfourner.'
+    ])
+  })
+
+  it('should read both times from one header line', () => {
+    const recipe = parseRecipeText(`Gratin dauphinois
+Préparation : 20 min - Cuisson : 1 h 15
+
+- 1 kg de pommes de terre`)
+
+    expect(recipe.prepTime).toBe(20)
+    expect(recipe.cookTime).toBe(75)
+    expect(recipe.ingredients).toHaveLength(1)
+  })
+
+  it('should parse an English recipe', () => {
+    const recipe = parseRecipeText(`Recipe: Pancakes
+Serves 4
+Prep time: 10 minutes
+
+Ingredients
+2 cups flour
+1 tbsp sugar
+2 eggs
+
+Method
+Mix the dry ingredients.
+Add the eggs and whisk until smooth.`)
+
+    expect(recipe.title).toBe('Pancakes')
+    expect(recipe.servings).toBe(4)
+    expect(recipe.prepTime).toBe(10)
+    expect(recipe.ingredients.map(i => [i.quantity, i.unit, i.name])).toEqual([
+      [2, 'tasse', 'flour'],
+      [1, 'c. à soupe', 'sugar'],
+      [2, '', 'eggs']
+    ])
+    expect(recipe.steps).toHaveLength(2)
+  })
+
+  it('should keep ingredient groups', () => {
+    const recipe = parseRecipeText(`Ingrédients
+Pour la pâte :
+250 g farine
+125 g beurre
+Pour la garniture :
+4 pommes`)
+
+    expect(recipe.ingredients.map(i => [i.name, i.group])).toEqual([
+      ['farine', 'Pour la pâte'],
+      ['beurre', 'Pour la pâte'],
+      ['pommes', 'Pour la garniture']
+    ])
+  })
+
+  it('should guess sections without headings (message style)', () => {
+    const recipe = parseRecipeText(`Gâteau au yaourt pour 8
+1 pot de yaourt
+3 pots de farine
+½ sachet de levure
+Farine : 100 g
+1) Tout mélanger
+2) Cuire 35 min à 180°C`)
+
+    expect(recipe.title).toBe('Gâteau au yaourt pour 8')
+    expect(recipe.servings).toBe(8)
+    expect(recipe.ingredients).toHaveLength(4)
+    expect(recipe.ingredients[2]).toEqual({ quantity: 0.5, unit: '', name: 'sachet de levure' })
+    expect(recipe.ingredients[3]).toEqual({ quantity: 100, unit: 'g', name: 'Farine' })
+    expect(recipe.steps).toEqual(['Tout mélanger', 'Cuire 35 min à 180°C'])
+    expect(recipe.cookTime).toBeUndefined()
+  })
+
+  it('should start the steps at the first sentence without headings or numbers', () => {
+    const recipe = parseRecipeText(`Gâteau au yaourt
+1 pot de yaourt
+2 pots de sucre
+Mélanger le yaourt et le sucre.
+Ajouter la farine !
+Cuire 35 min.`)
+
+    expect(recipe.ingredients.map(i => i.name)).toEqual(['pot de yaourt', 'pots de sucre'])
+    expect(recipe.steps).toEqual(['Mélanger le yaourt et le sucre.', 'Ajouter la farine !', 'Cuire 35 min.'])
+  })
+
+  it('should handle "Étape N" prefixes and notes', () => {
+    const recipe = parseRecipeText(`Soupe
+Ingrédients :
+- 1 kg de carottes
+Étapes :
+Étape 1 : Éplucher les carottes.
+Étape 2 : Cuire 20 minutes.
+Astuces :
+Ajouter du cumin.`)
+
+    expect(recipe.steps).toEqual(['Éplucher les carottes.', 'Cuire 20 minutes.'])
+    expect(recipe.notes).toBe('Ajouter du cumin.')
+  })
+
+  it('should keep default servings when none are given', () => {
+    const recipe = parseRecipeText('Salade\n- 1 salade\n- sel, poivre')
+    expect(recipe.servings).toBe(4)
+    expect(recipe.ingredients.map(i => i.name)).toEqual(['salade', 'sel, poivre'])
+  })
+})
@@ -0,0 +1,180 @@
+// Free text recipe parser
+// Recipes pasted from messages, emails or transcribed photos (French or English):
+// detects the title, servings, times, ingredients (with "Pour la sauce :" groups) and steps
+
+import type { Ingredient } from '../types'
+import { parseIngredientString, parseTextDuration, type ParsedRecipe } from './recipeParser'
+
+type Section = 'ingredients' | 'steps' | 'notes' | null
+
+const FRACTIONS: Record<string, string> = { '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅛': '1/8' }
+
+// Lowercase without accents, for keyword matching
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+// Remove list markers: "- ", "• ", "* ", "– "
+function stripBullet(line: string): { text: string; bullet: boolean } {
+  const match = line.match(/^[-*•–—▪·+]\s*(.*)$/)
+  return match ? { text: match[1], bullet: true } : { text: line, bullet: false }
+}
+
+function replaceFractions(text: string): string {
+  return text
+    .replace(/(\d)\s*([½⅓⅔¼¾⅛])/g, (_, digit, fraction) => `${digit} ${FRACTIONS[fraction]}`)
+    .replace(/[½⅓⅔¼¾⅛]/g, fraction => FRACTIONS[fraction])
+}
+
+// "pour 4 personnes", "Serves 6", "Portions : 8"
+function parseServings(text: string): number | undefined {
+  const normalized = normalize(text)
+  const match = normalized.match(/(?:pour|for|serves?|makes|portions?\s*:|parts?\s*:|personnes?\s*:|servings?\s*:|yield\s*:)\s*(\d+)/) ??
+    normalized.match(/(\d+)\s*(?:personnes?|pers\b|portions?|parts?|servings?|people)/)
+  return match ? parseInt(match[1]) : undefined
+}
+
+// Line only giving the servings (not a title like "Tarte pour 6")
+function isServingsLine(text: string): boolean {
+  return /^(pour|for|serves?|makes|portions?|parts?|personnes?|servings?|yield|\d+\s*(personnes?|pers\b|portions?|parts?|servings?|people))/
+    .test(normalize(text))
+}
+
+// Section heading, ex: "Ingrédients (pour 4 personnes) :", "PRÉPARATION", "Method:"
+function classifyHeading(line: string): Section {
+  const normalized = normalize(line).replace(/[:.\s]+$/, '')
+  if (normalized.length > 50) return null
+  if (/^(les\s+)?ingredients?\b/.test(normalized)) return 'ingredients'
+  if (/^(preparation|etapes?|instructions?|recette|deroulement|method|directions?|steps?)$/.test(normalized)) return 'steps'
+  if (/^(notes?|astuces?|conseils?|remarques?|tips?)$/.test(normalized)) return 'notes'
+  return null
+}
+
+const TIME_LABEL = /\b(?:temps\s+de\s+)?(?:(preparation|prep(?:aration)?(?:\s+time)?)|cuisson|cook(?:ing)?(?:\s+time)?|bake|baking(?:\s+time)?)\b/g
+
+// "Préparation : 20 min", "Cuisson 1h", "Prep time: 15 minutes",
+// "Préparation : 20 min - Cuisson : 45 min" (each label reads its own duration)
+function parseTimeLine(line: string): { prepTime?: number; cookTime?: number } | null {
+  const normalized = normalize(line)
+  const labels = [...normalized.matchAll(TIME_LABEL)]
+  if (labels[0]?.index !== 0) return null
+
+  const times: { prepTime?: number; cookTime?: number } = {}
+  labels.forEach((label, i) => {
+    const duration = parseTextDuration(normalized.slice(label.index, labels[i + 1]?.index))
+    if (duration === undefined) return
+    if (label[1]) times.prepTime ??= duration
+    else times.cookTime ??= duration
+  })
+  return times.prepTime !== undefined || times.cookTime !== undefined ? times : null
+}
+
+// "Étape 2 :", "2.", "2)", "Step 2 -"
+const NUMBERED_STEP = /^(?:(?:[ée]tape|step)\s*\d+\s*[.):-]?|\d+\s*[.)](?=\s|$))\s*/i
+
+function looksLikeIngredient(text: string, bullet: boolean): boolean {
+  if (/^(\d|[½⅓⅔¼¾⅛])/.test(text) && !NUMBERED_STEP.test(text)) return true
+  // Short list item that is not a sentence: "sel, poivre"
+  return bullet && text.length < 60 && !/[.!]$/.test(text)
+}
+
+// Unnumbered step in a text without headings: a sentence, not an amount ("Mélanger le yaourt et le sucre.")
+function looksLikeSentence(text: string, bullet: boolean): boolean {
+  return !bullet && !looksLikeIngredient(text, bullet) && /[.!]$/.test(text)
+}
+
+// "Farine : 250 g" -> "250 g farine"
+function parseIngredientLine(text: string, group?: string): Ingredient {
+  const reversed = text.match(/^([^\d:]+?)\s*:\s*(\d.*)$/)
+  const ingredient = parseIngredientString(replaceFractions(reversed ? `${reversed[2]} ${reversed[1]}` : text))
+  if (group) ingredient.group = group
+  return ingredient
+}
+
+// Ingredient group heading: "Pour la sauce :", "Pâte :"
+function parseGroupHeading(text: string): string | undefined {
+  const match = text.match(/^([^\d].{0,40}?)\s*:$/)
+  return match ? match[1] : undefined
+}
+
+export function parseRecipeText(text: string): ParsedRecipe {
+  const recipe: ParsedRecipe = { title: '', source: '', servings: 4, ingredients: [], steps: [] }
+  const notes: string[] = []
+  let servingsFound = false
+  let section: Section = null
+  let group: string | undefined
+
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+
+  for (const line of lines) {
+    if (!line) continue
+    const { text: content, bullet } = stripBullet(line)
+    if (!content) continue
+
+    const heading = bullet ? null : classifyHeading(content)
+    if (heading) {
+      section = heading
+      group = undefined
+      // "Ingrédients pour 6 personnes"
+      const servings = parseServings(content)
+      if (servings) {
+        recipe.servings = servings
+        servingsFound = true
+      }
+      continue
+    }
+
+    // Servings and times, usually between the title and the ingredients
+    if (section !== 'steps' && section !== 'notes') {
+      const times = parseTimeLine(content)
+      if (times) {
+        Object.assign(recipe, times)
+        continue
+      }
+      if (!servingsFound && isServingsLine(content)) {
+        const servings = parseServings(content)
+        if (servings) {
+          recipe.servings = servings
+          servingsFound = true
+          continue
+        }
+      }
+    }
+
+    if (!recipe.title && section === null && !looksLikeIngredient(content, bullet)) {
+      recipe.title = content.replace(/^(recette|recipe)\s*:\s*/i, '')
+      // "Tarte aux pommes (pour 6)"
+      const servings = parseServings(content)
+      if (servings && !servingsFound) {
+        recipe.servings = servings
+        servingsFound = true
+      }
+      continue
+    }
+
+    // No heading: guess from the line itself
+    if (section === null) {
+      section = NUMBERED_STEP.test(content) || looksLikeSentence(content, bullet) ? 'steps' : 'ingredients'
+    } else if (section === 'ingredients' && !bullet && (NUMBERED_STEP.test(content) || content.length >= 80 || looksLikeSentence(content, bullet))) {
+      // Steps started without a heading
+      section = 'steps'
+    }
+
+    if (section === 'ingredients') {
+      const groupHeading = parseGroupHeading(content)
+      if (groupHeading) {
+        group = groupHeading
+        continue
+      }
+      recipe.ingredients.push(parseIngredientLine(content, group))
+    } else if (section === 'steps') {
+      const step = content.replace(NUMBERED_STEP, '').trim()
+      if (step) recipe.steps.push(step)
+    } else {
+      notes.push(content)
+    }
+  }
+
+  if (notes.length > 0) recipe.notes = notes.join('\n')
+  return recipe
+}
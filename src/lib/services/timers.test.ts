@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseDurations, formatDuration, formatCountdown, createTimerEngine, getRemaining } from './timers'
+import type { CookingTimer } from './storage'
+
+function memoryStorage(initial: CookingTimer[] = []) {
+  const saved = new Map(initial.map(t => [t.id, t]))
+  return {
+    saved,
+    getAll: async () => [...saved.values()],
+    save: async (timer: CookingTimer) => { saved.set(timer.id, timer) },
+    delete: async (id: string) => { saved.delete(id) }
+  }
+}
+
+describe('parseDurations', () => {
+  it('should find simple durations', () => {
+    expect(parseDurations('Cuire 25 minutes à 180°C')).toEqual([{ seconds: 1500, text: '25 minutes' }])
+    expect(parseDurations('Laisser reposer 2 h')[0].seconds).toBe(7200)
+    expect(parseDurations('Mixer 30 secondes')[0].seconds).toBe(30)
+    expect(parseDurations('Cuire 1,5 heure')[0].seconds).toBe(5400)
+  })
+
+  it('should read compound durations', () => {
+    expect(parseDurations('Cuire 1h30 au four')[0]).toEqual({ seconds: 5400, text: '1h30' })
+    expect(parseDurations('Mijoter 1 h 15 min')[0].seconds).toBe(4500)
+    expect(parseDurations('Compter 2 heures et 10 minutes')[0].seconds).toBe(7800)
+    expect(parseDurations('Braiser 1 heure et demie')[0].seconds).toBe(5400)
+  })
+
+  it('should read ranges', () => {
+    expect(parseDurations('Cuire 10 à 15 min')).toEqual([{ seconds: 600, maxSeconds: 900, text: '10 à 15 min' }])
+    expect(parseDurations('Pocher 3-4 minutes')[0]).toMatchObject({ seconds: 180, maxSeconds: 240 })
+  })
+
+  it('should find every duration of a step', () => {
+    const durations = parseDurations('Saisir 5 min, puis cuire 1h30 et laisser reposer 10 min')
+    expect(durations.map(d => d.seconds)).toEqual([300, 5400, 600])
+  })
+
+  it('should ignore words that only look like units', () => {
+    expect(parseDurations('Ajouter 3 haricots et 2 minces tranches, 180°C')).toEqual([])
+    expect(parseDurations('Laisser 2 hérissons en pâte d\'amande sécher 1 h')).toEqual([{ seconds: 3600, text: '1 h' }])
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format hours, minutes and seconds', () => {
+    expect(formatDuration(5400)).toBe('1h30')
+    expect(formatDuration(7200)).toBe('2h')
+    expect(formatDuration(900)).toBe('15 min')
+    expect(formatDuration(45)).toBe('45 s')
+    expect(formatCountdown(3725)).toBe('1:02:05')
+    expect(formatCountdown(65)).toBe('1:05')
+  })
+})
+
+describe('createTimerEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should finish a timer at its deadline and forget it', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T12:00:00.000Z'))
+    const storage = memoryStorage()
+    const onFinish = vi.fn()
+    const engine = createTimerEngine({ storage, onFinish })
+
+    const timer = await engine.start({ label: 'Pâtes', duration: 600 })
+    expect(storage.saved.has(timer.id)).toBe(true)
+
+    vi.advanceTimersByTime(5 * 60 * 1000)
+    expect(getRemaining(timer)).toBe(300)
+    expect(onFinish).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(5 * 60 * 1000)
+    expect(onFinish).toHaveBeenCalledWith(timer)
+    expect(engine.getTimers()).toEqual([])
+    await vi.runAllTimersAsync()
+    expect(storage.saved.size).toBe(0)
+    engine.stop()
+  })
+
+  it('should reload saved timers and finish those that ended meanwhile', async () => {
+    const now = Date.now()
+    const ended: CookingTimer = { id: 'a', label: 'Oeufs', duration: 540, endsAt: now - 1000, createdAt: '' }
+    const running: CookingTimer = { id: 'b', label: 'Riz', duration: 600, endsAt: now + 60000, createdAt: '' }
+    const onFinish = vi.fn()
+    const engine = createTimerEngine({ storage: memoryStorage([running, ended]), onFinish })
+
+    await engine.load()
+    expect(onFinish).toHaveBeenCalledWith(ended)
+    expect(engine.getTimers().map(t => t.id)).toEqual(['b'])
+
+    await engine.rename('b', 'Riz basmati')
+    expect(engine.getTimers()[0].label).toBe('Riz basmati')
+    engine.stop()
+  })
+})
@@ -0,0 +1,245 @@
+// Cooking timers
+// Durations are read from the step text ("1h30", "10 à 15 min"). Running timers keep
+// their deadline, saved in IndexedDB: they survive navigation and reloads, and stay
+// right when the browser slows down a background tab.
+
+import { v4 as uuidv4 } from 'uuid'
+import type { CookingTimer } from './storage'
+
+// A duration found in a step, range as "10 à 15 min"
+export interface StepDuration {
+  seconds: number
+  maxSeconds?: number
+  text: string // as written in the step
+}
+
+export interface TimerOptions {
+  label: string
+  duration: number // seconds
+  recipeId?: string
+  step?: number
+}
+
+export interface TimerStorage {
+  getAll: () => Promise<CookingTimer[]>
+  save: (timer: CookingTimer) => Promise<void>
+  delete: (id: string) => Promise<void>
+}
+
+// ============ DURATIONS ============
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^(h|heures?|hours?|hrs?)$/, 3600],
+  [/^(min(ute)?s?|mn)$/, 60],
+  [/^(sec(onde)?s?)$/, 1]
+]
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)'
+const UNIT = '(h|heures?|hours?|hrs?|min(?:ute)?s?|mn|sec(?:onde)?s?)'
+// Not followed by a letter, accented ones included: "2 hérissons" is not 2 h
+const END = '(?![\\p{L}])'
+const DURATION_PATTERN = new RegExp(
+  // "1h30", "1 h 30 min", "2 heures et 15 minutes", "1 heure et demie"
+  `(\\d+)\\s*(?:h|heures?|hours?|hrs?)\\s*(?:et\\s+)?(?:(\\d{1,2})\\s*(?:min(?:ute)?s?|mn)${END}|(\\d{2})${END}|(demie))` +
+  // "10 min", "1,5 heure", "10 à 15 min", "10-15 minutes"
+  `|${NUMBER}\\s*(?:(?:à|a|-|–|ou)\\s*${NUMBER}\\s*)?${UNIT}${END}`,
+  'giu'
+)
+
+function unitSeconds(unit: string): number {
+  return UNIT_SECONDS.find(([pattern]) => pattern.test(unit.toLowerCase()))?.[1] ?? 60
+}
+
+function parseNumber(value: string): number {
+  return parseFloat(value.replace(',', '.'))
+}
+
+// Every duration in a step, in order
+export function parseDurations(text: string): StepDuration[] {
+  const durations: StepDuration[] = []
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const [whole, hours, minutes, paddedMinutes, half, value, maxValue, unit] = match
+    if (hours) {
+      const extra = half ? 30 : parseInt(minutes ?? paddedMinutes, 10)
+      durations.push({ seconds: parseInt(hours, 10) * 3600 + extra * 60, text: whole.trim() })
+      continue
+    }
+
+    const factor = unitSeconds(unit)
+    const seconds = Math.round(parseNumber(value) * factor)
+    if (seconds <= 0) continue
+    const duration: StepDuration = { seconds, text: whole.trim() }
+    if (maxValue) {
+      const maxSeconds = Math.round(parseNumber(maxValue) * factor)
+      if (maxSeconds > seconds) duration.maxSeconds = maxSeconds
+    }
+    durations.push(duration)
+  }
+  return durations
+}
+
+// "1h30", "45 min", "30 s"
+export function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  if (h > 0) return m > 0 ? `${h}h${m.toString().padStart(2, '0')}` : `${h}h`
+  if (m > 0) return s > 0 ? `${m} min ${s} s` : `${m} min`
+  return `${s} s`
+}
+
+// Countdown display: "4:05", "1:02:05"
+export function formatCountdown(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  const secs = s.toString().padStart(2, '0')
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${secs}` : `${m}:${secs}`
+}
+
+// ============ ENGINE ============
+
+// Seconds left (0 when done)
+export function getRemaining(timer: CookingTimer, now = Date.now()): number {
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000))
+}
+
+// Running timers, soonest first. Timers ending while the app was closed finish on load
+export function createTimerEngine({
+  storage,
+  onFinish,
+  now = () => Date.now()
+}: {
+  storage: TimerStorage
+  onFinish: (timer: CookingTimer) => void
+  now?: () => number
+}) {
+  let timers: CookingTimer[] = []
+  const listeners = new Set<(timers: CookingTimer[]) => void>()
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  function setTimers(next: CookingTimer[]) {
+    timers = [...next].sort((a, b) => a.endsAt - b.endsAt)
+    listeners.forEach(listener => listener(timers))
+    schedule()
+  }
+
+  // Wake up at the next deadline (checked again when the tab comes back, see check())
+  function schedule() {
+    clearTimeout(timeout)
+    if (timers.length === 0) return
+    timeout = setTimeout(check, Math.max(0, timers[0].endsAt - now()))
+  }
+
+  // Finish the timers whose deadline has passed
+  function check(): CookingTimer[] {
+    const done = timers.filter(t => t.endsAt <= now())
+    if (done.length === 0) {
+      schedule()
+      return []
+    }
+    setTimers(timers.filter(t => !done.includes(t)))
+    for (const timer of done) {
+      storage.delete(timer.id).catch(e => console.error('Erreur suppression minuteur:', e))
+      onFinish(timer)
+    }
+    return done
+  }
+
+  async function load(): Promise<void> {
+    setTimers(await storage.getAll())
+    check()
+  }
+
+  async function start(options: TimerOptions): Promise<CookingTimer> {
+    const timer: CookingTimer = {
+      id: uuidv4(),
+      ...options,
+      endsAt: now() + options.duration * 1000,
+      createdAt: new Date(now()).toISOString()
+    }
+    setTimers([...timers, timer])
+    await storage.save(timer)
+    return timer
+  }
+
+  async function cancel(id: string): Promise<void> {
+    setTimers(timers.filter(t => t.id !== id))
+    await storage.delete(id)
+  }
+
+  async function rename(id: string, label: string): Promise<void> {
+    const timer = timers.find(t => t.id === id)
+    if (!timer) return
+    const updated = { ...timer, label }
+    setTimers(timers.map(t => t.id === id ? updated : t))
+    await storage.save(updated)
+  }
+
+  function subscribe(listener: (timers: CookingTimer[]) => void): () => void {
+    listeners.add(listener)
+    listener(timers)
+    return () => listeners.delete(listener)
+  }
+
+  function stop() {
+    clearTimeout(timeout)
+  }
+
+  return { load, start, cancel, rename, check, subscribe, stop, getTimers: () => timers }
+}
+
+export type TimerEngine = ReturnType<typeof createTimerEngine>
+
+// ============ ALARM ============
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow sound after a user action: called when a timer is started
+export function prepareAlarm() {
+  if (!audioContext && typeof AudioContext !== 'undefined') {
+    audioContext = new AudioContext()
+  }
+  audioContext?.resume().catch(() => {})
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {})
+  }
+}
+
+// Three series of beeps
+export function playAlarm() {
+  if ('vibrate' in navigator) {
+    navigator.vibrate([200, 100, 200, 100, 200])
+  }
+  if (!audioContext) return
+
+  const start = audioContext.currentTime
+  for (let i = 0; i < 9; i++) {
+    const at = start + Math.floor(i / 3) + (i % 3) * 0.25
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    oscillator.frequency.value = 880
+    gain.gain.setValueAtTime(0.3, at)
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.2)
+    oscillator.connect(gain).connect(audioContext.destination)
+    oscillator.start(at)
+    oscillator.stop(at + 0.2)
+  }
+}
+
+// System notification through the service worker (shown even when the app is in the background)
+export async function notifyTimer(timer: CookingTimer): Promise<void> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return
+  const title = 'Minuteur terminé'
+  const options: NotificationOptions = { body: timer.label, tag: timer.id, requireInteraction: true }
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration()
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      new Notification(title, options)
+    }
+  } catch (e) {
+    console.error('Erreur notification:', e)
+  }
+}
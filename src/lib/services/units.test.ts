@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { resolveUnit, convertQuantity, sumQuantities, toDisplayQuantity, areUnitsCompatible } from './units'
+
+describe('resolveUnit', () => {
+  it('should resolve canonical symbols', () => {
+    expect(resolveUnit('g')).toMatchObject({ symbol: 'g', dimension: 'mass', factor: 1 })
+    expect(resolveUnit('L')).toMatchObject({ symbol: 'L', dimension: 'volume', factor: 1000 })
+  })
+
+  it('should resolve French and English aliases', () => {
+    expect(resolveUnit('grammes')?.symbol).toBe('g')
+    expect(resolveUnit('cups')?.symbol).toBe('tasse')
+    expect(resolveUnit('tbsp')?.symbol).toBe('c. à soupe')
+    expect(resolveUnit('cuillères à café')?.symbol).toBe('c. à café')
+    expect(resolveUnit('pièces')?.dimension).toBe('count')
+  })
+
+  it('should ignore case, spaces and dots', () => {
+    expect(resolveUnit('c.à.s')?.symbol).toBe('c. à soupe')
+    expect(resolveUnit('C. à S.')?.symbol).toBe('c. à soupe')
+    expect(resolveUnit('l')?.symbol).toBe('L')
+  })
+
+  it('should treat an empty unit as a count', () => {
+    expect(resolveUnit('')?.dimension).toBe('count')
+  })
+
+  it('should return null for unknown units', () => {
+    expect(resolveUnit('gousses')).toBeNull()
+    expect(resolveUnit('pincée')).toBeNull()
+  })
+})
+
+describe('convertQuantity', () => {
+  it('should convert within a dimension', () => {
+    expect(convertQuantity(0.5, 'kg', 'g')).toBe(500)
+    expect(convertQuantity(3, 'c. à café', 'c. à soupe')).toBe(1)
+    expect(convertQuantity(25, 'cl', 'ml')).toBe(250)
+  })
+
+  it('should return null across dimensions', () => {
+    expect(convertQuantity(1, 'kg', 'L')).toBeNull()
+    expect(convertQuantity(1, 'gousse', 'g')).toBeNull()
+  })
+})
+
+describe('areUnitsCompatible', () => {
+  it('should compare dimensions and unknown units', () => {
+    expect(areUnitsCompatible('g', 'kg')).toBe(true)
+    expect(areUnitsCompatible('g', 'ml')).toBe(false)
+    expect(areUnitsCompatible('gousse', 'gousses')).toBe(true)
+    expect(areUnitsCompatible('gousse', 'g')).toBe(false)
+  })
+})
+
+describe('toDisplayQuantity', () => {
+  it('should switch to a larger unit when the total reaches it', () => {
+    expect(toDisplayQuantity(1200, 'mass')).toEqual({ quantity: 1.2, unit: 'kg' })
+    expect(toDisplayQuantity(700, 'mass')).toEqual({ quantity: 700, unit: 'g' })
+    expect(toDisplayQuantity(1500, 'volume')).toEqual({ quantity: 1.5, unit: 'L' })
+  })
+
+  it('should keep spoons for spoon-only totals', () => {
+    const spoons = [resolveUnit('c. à soupe')!, resolveUnit('c. à café')!]
+    expect(toDisplayQuantity(30, 'volume', spoons)).toEqual({ quantity: 2, unit: 'c. à soupe' })
+    expect(toDisplayQuantity(10, 'volume', [resolveUnit('c. à café')!])).toEqual({ quantity: 2, unit: 'c. à café' })
+  })
+
+  it('should keep a single source unit when possible', () => {
+    expect(toDisplayQuantity(300, 'volume', [resolveUnit('cl')!])).toEqual({ quantity: 30, unit: 'cl' })
+    expect(toDisplayQuantity(1500, 'volume', [resolveUnit('cl')!])).toEqual({ quantity: 1.5, unit: 'L' })
+  })
+})
+
+describe('sumQuantities', () => {
+  it('should sum mass quantities expressed in different units', () => {
+    expect(sumQuantities([
+      { quantity: 200, unit: 'g' },
+      { quantity: 0.5, unit: 'kg' }
+    ])).toEqual([{ quantity: 700, unit: 'g' }])
+
+    expect(sumQuantities([
+      { quantity: 700, unit: 'g' },
+      { quantity: 0.5, unit: 'kg' }
+    ])).toEqual([{ quantity: 1.2, unit: 'kg' }])
+  })
+
+  it('should sum spoons', () => {
+    expect(sumQuantities([
+      { quantity: 1, unit: 'c. à soupe' },
+      { quantity: 3, unit: 'c. à café' }
+    ])).toEqual([{ quantity: 2, unit: 'c. à soupe' }])
+  })
+
+  it('should keep incompatible units separate', () => {
+    expect(sumQuantities([
+      { quantity: 2, unit: 'gousses' },
+      { quantity: 1, unit: 'gousse' },
+      { quantity: 10, unit: 'g' }
+    ])).toEqual([
+      { quantity: 3, unit: 'gousses' },
+      { quantity: 10, unit: 'g' }
+    ])
+  })
+
+  it('should sum counts without unit', () => {
+    expect(sumQuantities([
+      { quantity: 2, unit: '' },
+      { quantity: 3, unit: 'pièces' }
+    ])).toEqual([{ quantity: 5, unit: '' }])
+  })
+
+  it('should round floating point noise', () => {
+    expect(sumQuantities([
+      { quantity: 0.1, unit: 'L' },
+      { quantity: 0.2, unit: 'L' }
+    ])).toEqual([{ quantity: 0.3, unit: 'L' }])
+  })
+})
@@ -0,0 +1,151 @@
+// Units of measure for ingredient quantities
+// Converts between compatible units (mass, volume, count) so quantities can be summed
+
+export type Dimension = 'mass' | 'volume' | 'count'
+
+export interface UnitDefinition {
+  symbol: string // display form, also used when parsing imported ingredients
+  dimension: Dimension
+  factor: number // value in the canonical unit of the dimension (g, ml, piece)
+}
+
+export interface Quantity {
+  quantity: number
+  unit: string
+}
+
+// Canonical units: g (mass), ml (volume), piece (count, empty symbol)
+const UNITS: UnitDefinition[] = [
+  { symbol: 'mg', dimension: 'mass', factor: 0.001 },
+  { symbol: 'g', dimension: 'mass', factor: 1 },
+  { symbol: 'kg', dimension: 'mass', factor: 1000 },
+  { symbol: 'oz', dimension: 'mass', factor: 28.35 },
+  { symbol: 'lb', dimension: 'mass', factor: 453.6 },
+  { symbol: 'ml', dimension: 'volume', factor: 1 },
+  { symbol: 'cl', dimension: 'volume', factor: 10 },
+  { symbol: 'dl', dimension: 'volume', factor: 100 },
+  { symbol: 'L', dimension: 'volume', factor: 1000 },
+  { symbol: 'c. à café', dimension: 'volume', factor: 5 },
+  { symbol: 'c. à soupe', dimension: 'volume', factor: 15 },
+  { symbol: 'tasse', dimension: 'volume', factor: 250 },
+  { symbol: '', dimension: 'count', factor: 1 },
+  { symbol: 'douzaine', dimension: 'count', factor: 12 }
+]
+
+// French/English spellings
+const ALIASES: Record<string, string> = {
+  'milligramme': 'mg', 'milligrammes': 'mg',
+  'gramme': 'g', 'grammes': 'g', 'gr': 'g',
+  'kilogramme': 'kg', 'kilogrammes': 'kg', 'kilo': 'kg', 'kilos': 'kg',
+  'ounce': 'oz', 'ounces': 'oz',
+  'pound': 'lb', 'pounds': 'lb', 'lbs': 'lb',
+  'millilitre': 'ml', 'millilitres': 'ml',
+  'centilitre': 'cl', 'centilitres': 'cl',
+  'décilitre': 'dl', 'décilitres': 'dl',
+  'l': 'L', 'litre': 'L', 'litres': 'L',
+  'tsp': 'c. à café', 'teaspoon': 'c. à café', 'teaspoons': 'c. à café',
+  'c. à c.': 'c. à café', 'cc': 'c. à café',
+  'cuillère à café': 'c. à café', 'cuillères à café': 'c. à café',
+  'tbsp': 'c. à soupe', 'tablespoon': 'c. à soupe', 'tablespoons': 'c. à soupe',
+  'c. à s.': 'c. à soupe', 'cs': 'c. à soupe',
+  'cuillère à soupe': 'c. à soupe', 'cuillères à soupe': 'c. à soupe',
+  'cup': 'tasse', 'cups': 'tasse', 'tasses': 'tasse',
+  'piece': '', 'pieces': '', 'pièce': '', 'pièces': '', 'unité': '', 'unités': '',
+  'douzaines': 'douzaine'
+}
+
+// Units used to display a total, smallest first
+const DISPLAY_UNITS: Record<Dimension, string[]> = {
+  mass: ['g', 'kg'],
+  volume: ['ml', 'L'],
+  count: ['']
+}
+
+// Small volumes measured with spoons are shown in spoons, not ml
+const SPOON_UNITS = ['c. à café', 'c. à soupe']
+
+// Case, spaces and dots are ignored: "c.à.s", "c. à s." and "C à S" are the same unit
+function normalizeKey(unit: string): string {
+  return unit.toLowerCase().replace(/[\s.]/g, '')
+}
+
+const UNIT_INDEX = new Map<string, UnitDefinition>()
+for (const def of UNITS) {
+  UNIT_INDEX.set(normalizeKey(def.symbol), def)
+}
+for (const [alias, symbol] of Object.entries(ALIASES)) {
+  UNIT_INDEX.set(normalizeKey(alias), UNITS.find(u => u.symbol === symbol)!)
+}
+
+function getUnit(symbol: string): UnitDefinition {
+  return UNITS.find(u => u.symbol === symbol)!
+}
+
+// Resolve a unit string ("grammes", "c. à s.", "cups"...) to its definition
+export function resolveUnit(unit: string | undefined): UnitDefinition | null {
+  return UNIT_INDEX.get(normalizeKey(unit ?? '')) ?? null
+}
+
+export function areUnitsCompatible(a: string, b: string): boolean {
+  const defA = resolveUnit(a)
+  const defB = resolveUnit(b)
+  if (defA && defB) return defA.dimension === defB.dimension
+  return !defA && !defB && unknownUnitKey(a) === unknownUnitKey(b)
+}
+
+// Convert a quantity to another unit, null if the units are not compatible
+export function convertQuantity(quantity: number, from: string, to: string): number | null {
+  const fromDef = resolveUnit(from)
+  const toDef = resolveUnit(to)
+  if (!fromDef || !toDef || fromDef.dimension !== toDef.dimension) return null
+  return (quantity * fromDef.factor) / toDef.factor
+}
+
+// Round to 2 decimals to hide floating point noise (0.30000000000000004)
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100
+}
+
+// Pick a readable unit for a canonical total (1.2 kg rather than 1200 g)
+export function toDisplayQuantity(total: number, dimension: Dimension, sourceUnits: UnitDefinition[] = []): Quantity {
+  const distinct = Array.from(new Set(sourceUnits))
+
+  let candidates: UnitDefinition[]
+  if (distinct.length > 0 && distinct.every(u => SPOON_UNITS.includes(u.symbol))) {
+    candidates = SPOON_UNITS.map(getUnit)
+  } else if (distinct.length === 1) {
+    // Keep the unit used by the recipes, switching up only when it gets big
+    candidates = [distinct[0], ...DISPLAY_UNITS[dimension].map(getUnit).filter(u => u.factor > distinct[0].factor)]
+  } else {
+    candidates = DISPLAY_UNITS[dimension].map(getUnit)
+  }
+
+  // Largest unit in which the total is at least 1
+  const unit = [...candidates].reverse().find(u => total / u.factor >= 1) ?? candidates[0]
+  return { quantity: roundQuantity(total / unit.factor), unit: unit.symbol }
+}
+
+function unknownUnitKey(unit: string): string {
+  return unit.toLowerCase().trim().replace(/s$/, '')
+}
+
+// Sum quantities, converting compatible units; one total per incompatible group
+// ("200 g" + "0.5 kg" -> "700 g", but "2 gousses" and "10 g" stay separate)
+export function sumQuantities(quantities: Quantity[]): Quantity[] {
+  const buckets = new Map<string, { total: number; dimension?: Dimension; units: UnitDefinition[]; unit: string }>()
+
+  for (const { quantity, unit } of quantities) {
+    const def = resolveUnit(unit)
+    const key = def ? def.dimension : `other:${unknownUnitKey(unit)}`
+    const bucket = buckets.get(key) ?? { total: 0, dimension: def?.dimension, units: [], unit }
+    bucket.total += def ? quantity * def.factor : quantity
+    if (def) bucket.units.push(def)
+    buckets.set(key, bucket)
+  }
+
+  return Array.from(buckets.values()).map(bucket =>
+    bucket.dimension
+      ? toDisplayQuantity(bucket.total, bucket.dimension, bucket.units)
+      : { quantity: roundQuantity(bucket.total), unit: bucket.unit }
+  )
+}
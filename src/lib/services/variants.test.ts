@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { createVariant, compareToParent, groupVariants, isVariantPair, hasDifferences } from './variants'
+import { findDuplicates } from './duplicates'
+import { makeRecipeWithMeta } from './__fixtures__/recipes'
+import type { RecipeWithMeta } from '../types'
+
+function makeLasagnes(id: string, overrides: Partial<RecipeWithMeta> = {}): RecipeWithMeta {
+  return makeRecipeWithMeta(id, {
+    title: 'Lasagnes',
+    ingredients: [
+      { name: 'pâtes à lasagne', quantity: 250, unit: 'g' },
+      { name: 'boeuf haché', quantity: 500, unit: 'g' },
+      { name: 'tomates', quantity: 800, unit: 'g' }
+    ],
+    steps: ['Préparer la sauce', 'Monter les couches', 'Cuire 40 min'],
+    ...overrides
+  })
+}
+
+describe('createVariant', () => {
+  it('should copy the parent and link to it', () => {
+    const { metadata, ...parent } = makeLasagnes('a')
+    const variant = createVariant(parent, 'Lasagnes végétariennes')
+
+    expect(variant.title).toBe('Lasagnes végétariennes')
+    expect(variant.parentId).toBe('a')
+    expect(variant).not.toHaveProperty('id')
+    expect(variant).not.toHaveProperty('createdAt')
+
+    // Editing the variant leaves the parent as it was
+    variant.ingredients[0].quantity = 300
+    expect(parent.ingredients[0].quantity).toBe(250)
+  })
+})
+
+describe('compareToParent', () => {
+  it('should list added, removed and changed ingredients', () => {
+    const parent = makeLasagnes('a')
+    const variant = makeLasagnes('b', {
+      parentId: 'a',
+      ingredients: [
+        { name: 'Pâtes à lasagne', quantity: 250, unit: 'g' },
+        { name: 'lentilles', quantity: 200, unit: 'g' },
+        { name: 'tomates', quantity: 1, unit: 'kg' }
+      ],
+      steps: ['Préparer la sauce aux lentilles', 'Monter les couches', 'Cuire 40 min']
+    })
+
+    const summary = compareToParent(parent, variant)
+    expect(summary.added.map(i => i.name)).toEqual(['lentilles'])
+    expect(summary.removed.map(i => i.name)).toEqual(['boeuf haché'])
+    expect(summary.changed).toEqual([{ name: 'tomates', before: '800 g', after: '1 kg' }])
+    expect(summary.stepsAdded).toBe(1)
+    expect(summary.stepsRemoved).toBe(1)
+  })
+
+  it('should compare quantities for the same servings', () => {
+    const parent = makeLasagnes('a')
+    const variant = makeLasagnes('b', {
+      parentId: 'a',
+      servings: 8,
+      ingredients: parent.ingredients.map(i => ({ ...i, quantity: i.quantity * 2 }))
+    })
+
+    expect(hasDifferences(compareToParent(parent, variant))).toBe(false)
+  })
+})
+
+describe('groupVariants', () => {
+  it('should group variants under their oldest ancestor', () => {
+    const recipes = [
+      makeLasagnes('b', { parentId: 'a' }),
+      makeLasagnes('x'),
+      makeLasagnes('a'),
+      makeLasagnes('c', { parentId: 'b' }),
+      makeLasagnes('d', { parentId: 'missing' })
+    ]
+
+    const groups = groupVariants(recipes)
+    expect(groups.map(g => [g.recipe.id, g.variants.map(v => v.id)])).toEqual([
+      ['a', ['b', 'c']],
+      ['x', []],
+      ['d', []]
+    ])
+  })
+
+  it('should not loop on a parent cycle', () => {
+    const groups = groupVariants([makeLasagnes('a', { parentId: 'b' }), makeLasagnes('b', { parentId: 'a' })])
+    expect(groups.map(g => [g.recipe.id, g.variants.length])).toEqual([['a', 0], ['b', 0]])
+  })
+})
+
+describe('isVariantPair', () => {
+  it('should not report a variant as a duplicate', () => {
+    const recipes = [makeLasagnes('a'), makeLasagnes('b', { parentId: 'a' }), makeLasagnes('c', { parentId: 'a' })]
+
+    expect(isVariantPair(recipes[1], recipes[2])).toBe(true)
+    expect(isVariantPair(recipes[0], makeLasagnes('d'))).toBe(false)
+    expect(findDuplicates(recipes)).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+// Recipe variants
+// A variant is a copy of a recipe adapted to a diet or a taste (vegetarian, less sugar...),
+// linked by `parentId` to the recipe it was made from. It has its own metadata.
+
+import { normalizeIngredientName } from './shoppingGenerator'
+import { getScaleRatio, scaleQuantity, formatQuantity } from './scaling'
+import { diffLines } from './revisions'
+import type { Ingredient, Recipe, RecipeWithMeta } from '../types'
+
+export interface IngredientChange {
+  name: string
+  before: string // "100 g"
+  after: string
+}
+
+// What a variant changes from its parent
+export interface VariantSummary {
+  added: Ingredient[]
+  removed: Ingredient[]
+  changed: IngredientChange[] // same ingredient, other quantity or unit
+  stepsAdded: number
+  stepsRemoved: number
+}
+
+export interface RecipeGroup {
+  recipe: RecipeWithMeta
+  variants: RecipeWithMeta[] // also variants of variants
+}
+
+// ============ FORK ============
+
+// Data of a new variant (a copy of the parent, linked to it)
+export function createVariant(parent: Recipe, title: string): Omit<Recipe, 'id' | 'createdAt' | 'updatedAt'> {
+  const { id, createdAt, updatedAt, ...fields } = parent
+  return {
+    ...JSON.parse(JSON.stringify(fields)),
+    title,
+    parentId: id
+  }
+}
+
+export function getVariants<T extends Recipe>(recipes: T[], id: string): T[] {
+  return recipes.filter(r => r.parentId === id)
+}
+
+// Parent and variant, or two variants of the same recipe (similar, but not duplicates)
+export function isVariantPair(a: Recipe, b: Recipe): boolean {
+  return a.parentId === b.id || b.parentId === a.id || (!!a.parentId && a.parentId === b.parentId)
+}
+
+// ============ DIFFERENCES ============
+
+function formatAmount(quantity: number, unit: string): string {
+  return [quantity ? formatQuantity(quantity) : '', unit].filter(Boolean).join(' ')
+}
+
+// Ingredients compared for the parent servings, steps line by line
+export function compareToParent(parent: Recipe, variant: Recipe): VariantSummary {
+  const ratio = getScaleRatio(variant.servings, parent.servings)
+  const parentByName = new Map(parent.ingredients.map(i => [normalizeIngredientName(i.name), i]))
+  const variantNames = new Set(variant.ingredients.map(i => normalizeIngredientName(i.name)))
+
+  const added: Ingredient[] = []
+  const changed: IngredientChange[] = []
+  for (const ingredient of variant.ingredients) {
+    const original = parentByName.get(normalizeIngredientName(ingredient.name))
+    if (!original) {
+      added.push(ingredient)
+      continue
+    }
+    const before = formatAmount(original.quantity, original.unit)
+    const after = formatAmount(scaleQuantity(ingredient.quantity, ratio), ingredient.unit)
+    if (before !== after) changed.push({ name: ingredient.name, before, after })
+  }
+
+  const steps = diffLines(parent.steps, variant.steps)
+  return {
+    added,
+    removed: parent.ingredients.filter(i => !variantNames.has(normalizeIngredientName(i.name))),
+    changed,
+    stepsAdded: steps.filter(line => line.type === 'added').length,
+    stepsRemoved: steps.filter(line => line.type === 'removed').length
+  }
+}
+
+export function hasDifferences(summary: VariantSummary): boolean {
+  return summary.added.length > 0 || summary.removed.length > 0 || summary.changed.length > 0 ||
+    summary.stepsAdded > 0 || summary.stepsRemoved > 0
+}
+
+// ============ LIST ============
+
+// Variants listed under their oldest ancestor in the list, each family where it first appears
+export function groupVariants(recipes: RecipeWithMeta[]): RecipeGroup[] {
+  const byId = new Map(recipes.map(r => [r.id, r]))
+
+  // Oldest ancestor present in the list (a recipe in a parent cycle is left on its own)
+  const rootOf = (recipe: RecipeWithMeta): RecipeWithMeta => {
+    let root = recipe
+    const seen = new Set([recipe.id])
+    while (root.parentId && byId.has(root.parentId)) {
+      if (seen.has(root.parentId)) return recipe
+      root = byId.get(root.parentId)!
+      seen.add(root.id)
+    }
+    return root
+  }
+
+  const groups = new Map<string, RecipeGroup>()
+  for (const recipe of recipes) {
+    const root = rootOf(recipe)
+    if (!groups.has(root.id)) groups.set(root.id, { recipe: root, variants: [] })
+    if (root !== recipe) groups.get(root.id)!.variants.push(recipe)
+  }
+  return [...groups.values()]
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { parseVoiceCommand, parseVoiceAlternatives } from './voiceCommands'
+
+describe('parseVoiceCommand', () => {
+  it('should understand the basic commands', () => {
+    expect(parseVoiceCommand('suivant')).toBe('next')
+    expect(parseVoiceCommand('Précédent')).toBe('previous')
+    expect(parseVoiceCommand('répète')).toBe('repeat')
+    expect(parseVoiceCommand('lance le minuteur')).toBe('start-timer')
+    expect(parseVoiceCommand('ingrédients')).toBe('ingredients')
+  })
+
+  it('should find the command in a sentence', () => {
+    expect(parseVoiceCommand('étape suivante s\'il te plaît')).toBe('next')
+    expect(parseVoiceCommand('on revient à l\'étape précédente')).toBe('previous')
+    expect(parseVoiceCommand('tu peux répéter')).toBe('repeat')
+    expect(parseVoiceCommand('quels sont les ingrédients')).toBe('ingredients')
+  })
+
+  it('should prefer the timer over step navigation', () => {
+    expect(parseVoiceCommand('lance le minuteur suivant')).toBe('start-timer')
+  })
+
+  it('should only take short words when said alone', () => {
+    expect(parseVoiceCommand('Quoi ?')).toBe('repeat')
+    expect(parseVoiceCommand('quoi de neuf')).toBeNull()
+  })
+
+  it('should not start a timer when asked to stop one', () => {
+    expect(parseVoiceCommand('arrête le minuteur')).toBeNull()
+    expect(parseVoiceCommand('stop le chrono')).toBeNull()
+    expect(parseVoiceCommand('annule le timer')).toBeNull()
+    expect(parseVoiceCommand('ne lance pas le minuteur')).toBeNull()
+  })
+
+  it('should only navigate when the word is said alone or after "étape"', () => {
+    expect(parseVoiceCommand('après')).toBe('next')
+    expect(parseVoiceCommand('retour')).toBe('previous')
+    expect(parseVoiceCommand('encore')).toBe('repeat')
+    expect(parseVoiceCommand('on mélange après la cuisson')).toBeNull()
+    expect(parseVoiceCommand('je continue de remuer')).toBeNull()
+    expect(parseVoiceCommand('remets-en encore un peu')).toBeNull()
+    expect(parseVoiceCommand('retour au four')).toBeNull()
+  })
+
+  it('should ignore unrelated speech', () => {
+    expect(parseVoiceCommand('le four est chaud')).toBeNull()
+    expect(parseVoiceCommand('')).toBeNull()
+  })
+})
+
+describe('parseVoiceAlternatives', () => {
+  it('should use the first alternative that is a command', () => {
+    expect(parseVoiceAlternatives(['suis vend', 'suivant'])).toBe('next')
+    expect(parseVoiceAlternatives(['bonjour', 'bonsoir'])).toBeNull()
+  })
+})
@@ -0,0 +1,58 @@
+// Voice commands of the cooking mode
+// Turns what the speech recognition heard ("étape suivante", "relis") into a command.
+// No browser API here (see speech.ts): works on plain transcripts.
+
+import { tokenize } from './searchIndex'
+
+export type VoiceCommand = 'next' | 'previous' | 'repeat' | 'start-timer' | 'ingredients'
+
+// Accent-free words, understood anywhere in a sentence; checked in this order
+// ("lance le minuteur suivant" starts a timer)
+const COMMAND_WORDS: [VoiceCommand, string[]][] = [
+  ['start-timer', ['minuteur', 'minuteurs', 'timer', 'chrono', 'chronometre']],
+  ['ingredients', ['ingredient', 'ingredients']],
+  ['repeat', ['repete', 'repeter', 'repetes', 'relis', 'relire', 'redis']]
+]
+
+// Step navigation, also heard in kitchen talk ("après la cuisson", "retour au four"):
+// only understood when said alone or after "étape" ("étape suivante")
+const STEP_WORDS: [VoiceCommand, string[]][] = [
+  ['previous', ['precedent', 'precedente', 'retour', 'recule', 'arriere']],
+  ['next', ['suivant', 'suivante', 'apres', 'continue', 'continuer', 'ensuite', 'next']]
+]
+
+// Only understood when said alone: "quoi ?" but not "quoi de neuf"
+const SHORT_WORDS: [VoiceCommand, string[]][] = [
+  ['repeat', ['quoi', 'pardon', 'comment', 'encore']]
+]
+
+// "arrête le minuteur", "ne lance pas le chrono": nothing to start
+const STOP_WORDS = ['arrete', 'arreter', 'arretes', 'stop', 'stoppe', 'annule', 'annuler', 'pas']
+
+export function parseVoiceCommand(transcript: string): VoiceCommand | null {
+  const words = tokenize(transcript)
+  if (words.length === 0 || words.some(word => STOP_WORDS.includes(word))) return null
+
+  for (const [command, keywords] of COMMAND_WORDS) {
+    if (words.some(word => keywords.includes(word))) return command
+  }
+  for (const [command, keywords] of STEP_WORDS) {
+    const found = words.some((word, i) => keywords.includes(word) && (words.length === 1 || words[i - 1] === 'etape'))
+    if (found) return command
+  }
+  if (words.length === 1) {
+    for (const [command, keywords] of SHORT_WORDS) {
+      if (keywords.includes(words[0])) return command
+    }
+  }
+  return null
+}
+
+// First alternative of the recognition that is a command
+export function parseVoiceAlternatives(transcripts: string[]): VoiceCommand | null {
+  for (const transcript of transcripts) {
+    const command = parseVoiceCommand(transcript)
+    if (command) return command
+  }
+  return null
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createWebDAVBackend, testWebDAVConnection, type WebDAVConfig } from './webdavStorage'
+import { setConflictResolver } from './remoteStore'
+import type { Recipe } from '../types'
+
+const config: WebDAVConfig = {
+  url: 'https://dav.example.com/recettes',
+  username: 'marie',
+  password: 'secret'
+}
+
+// jsdom blobs have no text() (fetch responses return Node blobs, which do)
+function readText(blob: Blob | null): Promise<string> {
+  if (typeof blob?.text === 'function') return blob.text()
+  return new Promise(resolve => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(blob!)
+  })
+}
+
+// Minimal in-memory WebDAV server: GET/PUT/HEAD/PROPFIND/MKCOL with ETags and If-Match
+function createFakeServer() {
+  const files = new Map<string, { content: string; etag: string }>()
+  const folders = new Set([`${config.url}/`])
+  let version = 0
+  const requests: { method: string; url: string; headers: Record<string, string> }[] = []
+
+  const handler = async (url: string, options: RequestInit = {}): Promise<Response> => {
+    const method = options.method ?? 'GET'
+    const headers = (options.headers ?? {}) as Record<string, string>
+    requests.push({ method, url, headers })
+
+    if (headers['Authorization'] !== `Basic ${btoa('marie:secret')}`) {
+      return new Response(null, { status: 401 })
+    }
+
+    const file = files.get(url)
+    switch (method) {
+      case 'PROPFIND':
+        return new Response('<multistatus/>', { status: 207 })
+      case 'MKCOL':
+        folders.add(url)
+        return new Response(null, { status: 201 })
+      case 'GET':
+      case 'HEAD':
+        if (!file) return new Response(null, { status: 404 })
+        return new Response(method === 'GET' ? file.content : null, { status: 200, headers: { ETag: file.etag } })
+      case 'PUT': {
+        if (!folders.has(url.slice(0, url.lastIndexOf('/') + 1))) return new Response(null, { status: 409 })
+        if (headers['If-Match'] && headers['If-Match'] !== file?.etag) return new Response(null, { status: 412 })
+        if (headers['If-None-Match'] === '*' && file) return new Response(null, { status: 412 })
+        const etag = `"v${++version}"`
+        const content = options.body instanceof Blob ? await readText(options.body) : String(options.body)
+        files.set(url, { content, etag })
+        return new Response(null, { status: 201, headers: { ETag: etag } })
+      }
+    }
+    return new Response(null, { status: 405 })
+  }
+
+  // Simulate another device writing the file
+  const write = (name: string, data: unknown) => {
+    files.set(`${config.url}/${name}`, { content: JSON.stringify(data), etag: `"v${++version}"` })
+  }
+  const read = (name: string) => JSON.parse(files.get(`${config.url}/${name}`)!.content)
+
+  return { handler, requests, write, read }
+}
+
+function makeRecipe(id: string, title: string, updatedAt = '2024-01-01T00:00:00.000Z'): Recipe {
+  return { id, title, servings: 4, ingredients: [], steps: [], createdAt: updatedAt, updatedAt }
+}
+
+let server: ReturnType<typeof createFakeServer>
+
+beforeEach(() => {
+  server = createFakeServer()
+  vi.stubGlobal('fetch', vi.fn(server.handler))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  setConflictResolver(null)
+})
+
+describe('WebDAV backend', () => {
+  it('should store records as JSON files in the folder', async () => {
+    const backend = createWebDAVBackend(config)
+    await backend.saveRecipe(makeRecipe('a', 'Tarte'))
+
+    expect(server.read('recipes.json')).toEqual([makeRecipe('a', 'Tarte')])
+    expect(await backend.getAllRecipes()).toEqual([makeRecipe('a', 'Tarte')])
+  })
+
+  it('should only create a file if nobody else did', async () => {
+    const backend = createWebDAVBackend(config)
+    await backend.saveRecipe(makeRecipe('a', 'Tarte'))
+
+    const put = server.requests.find(r => r.method === 'PUT')
+    expect(put?.headers['If-None-Match']).toBe('*')
+  })
+
+  it('should write with the ETag of the last version read', async () => {
+    server.write('planning.json', [])
+    const backend = createWebDAVBackend(config)
+    await backend.getAllPlanning()
+    await backend.deletePlanningEntry('x')
+
+    const put = server.requests.find(r => r.method === 'PUT')
+    expect(put?.headers['If-Match']).toBe('"v1"')
+  })
+
+  it('should merge changes made on another device', async () => {
+    server.write('recipes.json', [makeRecipe('a', 'Tarte'), makeRecipe('b', 'Soupe')])
+    const backend = createWebDAVBackend(config)
+    await backend.getAllRecipes()
+
+    server.write('recipes.json', [makeRecipe('a', 'Tarte'), makeRecipe('b', 'Soupe de poireaux', '2024-02-01T00:00:00.000Z')])
+    await backend.saveRecipe(makeRecipe('a', 'Tarte tatin', '2024-02-02T00:00:00.000Z'))
+
+    expect(server.read('recipes.json').map((r: Recipe) => r.title)).toEqual(['Tarte tatin', 'Soupe de poireaux'])
+  })
+
+  it('should ask which version to keep on a real conflict', async () => {
+    server.write('recipes.json', [makeRecipe('a', 'Tarte')])
+    const backend = createWebDAVBackend(config)
+    await backend.getAllRecipes()
+
+    server.write('recipes.json', [makeRecipe('a', 'Tarte fine', '2024-02-01T00:00:00.000Z')])
+    const resolver = vi.fn(async () => ({ a: 'local' as const }))
+    setConflictResolver(resolver)
+    await backend.saveRecipe(makeRecipe('a', 'Tarte tatin', '2024-02-02T00:00:00.000Z'))
+
+    expect(resolver).toHaveBeenCalledOnce()
+    expect(server.read('recipes.json')[0].title).toBe('Tarte tatin')
+  })
+})
+
+describe('WebDAV images', () => {
+  it('should create the images folder on the first upload', async () => {
+    const backend = createWebDAVBackend(config)
+    await backend.saveImage('abc.webp', new Blob(['image'], { type: 'image/webp' }))
+
+    expect(server.requests.some(r => r.method === 'MKCOL' && r.url === `${config.url}/images/`)).toBe(true)
+    expect(await readText(await backend.getImage('abc.webp'))).toBe('image')
+  })
+
+  it('should not fail when the image is already there', async () => {
+    const backend = createWebDAVBackend(config)
+    await backend.saveImage('abc.webp', new Blob(['image']))
+    await expect(backend.saveImage('abc.webp', new Blob(['image']))).resolves.toBeUndefined()
+  })
+
+  it('should return null for a missing image', async () => {
+    const backend = createWebDAVBackend(config)
+    expect(await backend.getImage('missing.webp')).toBeNull()
+  })
+})
+
+describe('testWebDAVConnection', () => {
+  it('should accept a readable folder', async () => {
+    expect(await testWebDAVConnection(config)).toEqual({ success: true })
+  })
+
+  it('should reject wrong credentials', async () => {
+    const result = await testWebDAVConnection({ ...config, password: 'wrong' })
+    expect(result.success).toBe(false)
+  })
+})
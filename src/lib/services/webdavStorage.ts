@@ -0,0 +1,193 @@
+// WebDAV Storage Service
+// Stores data as JSON files in a WebDAV folder (Nextcloud, NAS, self-hosted server)
+
+import { encodeBase64Utf8 } from './githubStorage'
+import { createRemoteStore, type RemoteTransport } from './remoteStore'
+import type { RemoteBackend } from './storageBackend'
+
+export interface WebDAVConfig {
+  url: string // folder URL, ex: https://cloud.example.com/remote.php/dav/files/marie/recettes/
+  username: string
+  password: string
+}
+
+const CONFIG_KEY = 'webdav-config'
+
+export function getWebDAVConfig(): WebDAVConfig | null {
+  const stored = localStorage.getItem(CONFIG_KEY)
+  if (!stored) return null
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return null
+  }
+}
+
+export function saveWebDAVConfig(config: WebDAVConfig): void {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config))
+}
+
+export function clearWebDAVConfig(): void {
+  localStorage.removeItem(CONFIG_KEY)
+}
+
+export function isWebDAVConfigured(): boolean {
+  return getWebDAVConfig() !== null
+}
+
+function fileUrl(config: WebDAVConfig, name: string): string {
+  return config.url.replace(/\/*$/, '/') + name
+}
+
+async function webdavFetch(config: WebDAVConfig, url: string, options: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...options,
+    headers: {
+      'Authorization': `Basic ${encodeBase64Utf8(`${config.username}:${config.password}`)}`,
+      ...options.headers
+    }
+  })
+}
+
+// Get file content, the ETag is the file version
+async function getFile(config: WebDAVConfig, name: string, noCache = false): Promise<{ content: string; etag?: string } | null> {
+  const response = await webdavFetch(config, fileUrl(config, name), {
+    cache: noCache ? 'no-store' : 'default'
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Erreur WebDAV: ${response.status}`)
+  }
+
+  return {
+    content: await response.text(),
+    etag: response.headers.get('ETag') ?? undefined
+  }
+}
+
+// Save file, only if it is still at the given version (If-Match)
+async function saveFile(config: WebDAVConfig, name: string, content: string, etag?: string): Promise<string | undefined> {
+  const url = fileUrl(config, name)
+  const response = await webdavFetch(config, url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      // Without a version, only create the file if nobody else did
+      ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' })
+    },
+    body: content
+  })
+
+  if (!response.ok) {
+    if (response.status === 412) {
+      throw new Error('Conflit de version. Rechargez la page et reessayez.')
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Acces refuse. Verifiez l\'identifiant et le mot de passe WebDAV.')
+    }
+    if (response.status === 409) {
+      throw new Error('Dossier WebDAV non trouve. Verifiez l\'URL.')
+    }
+    throw new Error(`Erreur WebDAV: ${response.status}`)
+  }
+
+  // Some servers do not return the new ETag on PUT
+  const newEtag = response.headers.get('ETag')
+  if (newEtag) return newEtag
+  const head = await webdavFetch(config, url, { method: 'HEAD', cache: 'no-store' })
+  return head.headers.get('ETag') ?? undefined
+}
+
+// Get binary file content
+async function getBlob(config: WebDAVConfig, name: string): Promise<Blob | null> {
+  const response = await webdavFetch(config, fileUrl(config, name))
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Erreur WebDAV: ${response.status}`)
+  }
+
+  return response.blob()
+}
+
+// Save binary file, unless it already exists (its name is its content)
+async function saveBlob(config: WebDAVConfig, name: string, blob: Blob): Promise<void> {
+  const put = () => webdavFetch(config, fileUrl(config, name), {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type || 'application/octet-stream', 'If-None-Match': '*' },
+    body: blob
+  })
+
+  let response = await put()
+
+  // Parent folder missing (first image): create it and try again
+  if (response.status === 409) {
+    const folder = name.split('/').slice(0, -1).join('/')
+    await webdavFetch(config, fileUrl(config, `${folder}/`), { method: 'MKCOL' })
+    response = await put()
+  }
+
+  if (response.ok || response.status === 412) {
+    return
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('Acces refuse. Verifiez l\'identifiant et le mot de passe WebDAV.')
+  }
+  throw new Error(`Erreur WebDAV: ${response.status}`)
+}
+
+// Test connection: the folder must exist and be readable
+export async function testWebDAVConnection(config: WebDAVConfig): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await webdavFetch(config, config.url.replace(/\/*$/, '/'), {
+      method: 'PROPFIND',
+      headers: { 'Depth': '0' }
+    })
+
+    if (response.status === 401 || response.status === 403) {
+      return { success: false, error: 'Identifiant ou mot de passe incorrect' }
+    }
+
+    if (response.status === 404) {
+      return { success: false, error: 'Dossier non trouve. Creez-le sur le serveur.' }
+    }
+
+    if (!response.ok) {
+      return { success: false, error: `Erreur ${response.status}` }
+    }
+
+    return { success: true }
+  } catch (e) {
+    // fetch fails without status on network or CORS errors
+    return { success: false, error: 'Erreur de connexion (serveur injoignable ou CORS non autorise)' }
+  }
+}
+
+// ============ BACKEND ============
+
+function createWebDAVTransport(config: WebDAVConfig): RemoteTransport {
+  return {
+    async readFile(name, noCache) {
+      const file = await getFile(config, name, noCache)
+      return file ? { content: file.content, version: file.etag } : null
+    },
+    writeFile: (name, content, _message, version) => saveFile(config, name, content, version),
+    readBlob: name => getBlob(config, name),
+    writeBlob: (name, blob) => saveBlob(config, name, blob)
+  }
+}
+
+export function createWebDAVBackend(config: WebDAVConfig): RemoteBackend {
+  return {
+    ...createRemoteStore(createWebDAVTransport(config)),
+    testConnection: () => testWebDAVConnection(config),
+    initialize: async () => {} // the folder is created by the user on the server
+  }
+}
@@ -1,7 +1,11 @@
 import { writable, derived, type Readable } from 'svelte/store'
 import { v4 as uuidv4 } from 'uuid'
-import type { Recipe, RecipeMetadata, RecipeWithMeta, RecipeStatus } from '../types'
+import type { Ingredient, Recipe, RecipeMetadata, RecipeWithMeta, RecipeStatus } from '../types'
 import * as dataService from '../services/dataService'
+import { mergeRecipes } from '../services/duplicates'
+import { createVariant } from '../services/variants'
+import { createSearchIndex, parseQuery } from '../services/searchIndex'
+import { filterRecipes, sortRecipes, getSourceDomain, type ListState, type RecipeSort } from '../services/recipeFilters'
 
 // Debounce helper for stores
 function debounceStore<T>(store: Readable<T>, delay: number): Readable<T> {
@@ -30,47 +34,75 @@ const debouncedSearchStore = debounceStore(searchQueryStore, 300)
 const statusFilterStore = writable<RecipeStatus | null>(null)
 const tagsFilterStore = writable<string[]>([])
 const minRatingStore = writable<number | null>(null)
+const maxTimeStore = writable<number | null>(null)
+const neverMadeStore = writable(false)
+const notMadeWeeksStore = writable<number | null>(null)
+const hasImageStore = writable(false)
+const sourceDomainStore = writable<string | null>(null)
+const sortStore = writable<RecipeSort>('default')
+const groupVariantsStore = writable(false)
+
+// Full-text index, kept in sync with the recipes (subscribed before any derived store)
+const searchIndex = createSearchIndex()
+recipesStore.subscribe(recipes => searchIndex.update(recipes))
+
+// Parsed search, also used to highlight results
+export const searchTerms = derived(debouncedSearchStore, $search => parseQuery($search))
+
+// Current filters and sort (uses debounced search), saved in the list route
+export const listState = derived(
+  [debouncedSearchStore, statusFilterStore, tagsFilterStore, minRatingStore, maxTimeStore,
+    neverMadeStore, notMadeWeeksStore, hasImageStore, sourceDomainStore, sortStore, groupVariantsStore],
+  ([$search, $status, $tags, $minRating, $maxTime, $neverMade, $notMadeWeeks, $hasImage, $domain, $sort, $group]): ListState => ({
+    filters: {
+      search: $search,
+      status: $status,
+      tags: $tags,
+      minRating: $minRating,
+      maxTime: $maxTime,
+      neverMade: $neverMade,
+      notMadeWeeks: $notMadeWeeks,
+      hasImage: $hasImage,
+      domain: $domain
+    },
+    sort: $sort,
+    groupVariants: $group
+  })
+)
 
-// Derived store for filtered recipes (uses debounced search for performance)
+// Derived store for filtered recipes
 export const filteredRecipes = derived(
-  [recipesStore, debouncedSearchStore, statusFilterStore, tagsFilterStore, minRatingStore],
-  ([$recipes, $search, $status, $tags, $minRating]) => {
+  [recipesStore, searchTerms, listState],
+  ([$recipes, $search, $list]) => {
     let result = $recipes
 
-    // Search filter
-    if ($search.trim()) {
-      const query = $search.toLowerCase().trim()
-      result = result.filter(r =>
-        r.title.toLowerCase().includes(query) ||
-        r.ingredients.some(i => i.name.toLowerCase().includes(query)) ||
-        r.metadata.tags.some(t => t.toLowerCase().includes(query)) ||
-        r.notes?.toLowerCase().includes(query)
-      )
-    }
-
-    // Status filter
-    if ($status) {
-      result = result.filter(r => r.metadata.status === $status)
-    }
-
-    // Tags filter
-    if ($tags.length > 0) {
-      result = result.filter(r =>
-        $tags.every(tag => r.metadata.tags.includes(tag))
-      )
-    }
-
-    // Rating filter
-    if ($minRating !== null) {
-      result = result.filter(r =>
-        r.metadata.rating !== undefined && r.metadata.rating >= $minRating
-      )
+    // Search filter, best matches first
+    if ($search.terms.length > 0 || $search.phrases.length > 0) {
+      const byId = new Map($recipes.map(r => [r.id, r]))
+      result = searchIndex.search($search)
+        .map(match => byId.get(match.id))
+        .filter((r): r is RecipeWithMeta => r !== undefined)
     }
 
-    return result
+    return sortRecipes(filterRecipes(result, $list.filters), $list.sort)
   }
 )
 
+// Restore filters and sort (e.g. from a bookmarked route)
+export function setListState({ filters, sort, groupVariants }: ListState) {
+  searchQueryStore.set(filters.search)
+  statusFilterStore.set(filters.status)
+  tagsFilterStore.set(filters.tags)
+  minRatingStore.set(filters.minRating)
+  maxTimeStore.set(filters.maxTime)
+  neverMadeStore.set(filters.neverMade)
+  notMadeWeeksStore.set(filters.notMadeWeeks)
+  hasImageStore.set(filters.hasImage)
+  sourceDomainStore.set(filters.domain)
+  sortStore.set(sort)
+  groupVariantsStore.set(groupVariants)
+}
+
 // All unique tags across recipes
 export const allTags = derived(recipesStore, $recipes => {
   const tags = new Set<string>()
@@ -78,12 +110,25 @@ export const allTags = derived(recipesStore, $recipes => {
   return Array.from(tags).sort()
 })
 
+// Websites recipes were imported from
+export const allSourceDomains = derived(recipesStore, $recipes => {
+  const domains = new Set<string>()
+  $recipes.forEach(r => {
+    const domain = getSourceDomain(r)
+    if (domain) domains.add(domain)
+  })
+  return Array.from(domains).sort()
+})
+
 // Load initial data
 export async function loadRecipes() {
   loadingStore.set(true)
   errorStore.set(null)
 
   try {
+    // Also after a pull: other devices may still embed images in recipes
+    await dataService.migrateEmbeddedImages().catch(e => console.error('Migration des images:', e))
+    await dataService.pruneLocalImages().catch(e => console.error('Nettoyage des images:', e))
     const recipes = await dataService.getAllRecipesWithMeta()
     recipesStore.set(recipes)
   } catch (e) {
@@ -140,6 +185,26 @@ export async function updateRecipe(id: string, updates: Partial<Recipe>): Promis
   )
 }
 
+// Go back to a previous version of a recipe (saved as a new revision)
+export async function restoreRevision(id: string, version: Recipe): Promise<Recipe> {
+  const existing = await dataService.getRecipe(id)
+  if (!existing) throw new Error('Recipe not found')
+
+  const restored: Recipe = {
+    ...version,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  }
+
+  await dataService.saveRecipe(restored)
+
+  recipesStore.update(recipes =>
+    recipes.map(r => r.id === id ? { ...restored, metadata: r.metadata } : r)
+  )
+  return restored
+}
+
 // Update metadata
 export async function updateMetadata(id: string, updates: Partial<RecipeMetadata>): Promise<void> {
   let existing = await dataService.getMetadata(id)
@@ -164,11 +229,107 @@ export async function updateMetadata(id: string, updates: Partial<RecipeMetadata
 
 // Delete a recipe
 export async function deleteRecipe(id: string): Promise<void> {
+  // Its variants now come from its own parent, if any
+  const deleted = await dataService.getRecipe(id)
+  await reparentVariants(id, deleted?.parentId)
+  // Recipes using it as a sub-recipe keep a plain ingredient
+  await relinkSubRecipes(id, undefined)
+
   await dataService.deleteRecipe(id)
 
   recipesStore.update(recipes => recipes.filter(r => r.id !== id))
 }
 
+// Create a variant of a recipe: a linked copy with its own metadata (tags are kept)
+export async function forkRecipe(id: string, title: string): Promise<string> {
+  const parent = await dataService.getRecipe(id)
+  if (!parent) throw new Error('Recipe not found')
+
+  const variantId = await createRecipe(createVariant(parent, title))
+  const metadata = await dataService.getMetadata(id)
+  if (metadata && metadata.tags.length > 0) {
+    await updateMetadata(variantId, { tags: [...metadata.tags] })
+  }
+  return variantId
+}
+
+// Attach the variants of a recipe to another parent (none: they become recipes of their own)
+async function reparentVariants(fromId: string, toId: string | undefined): Promise<void> {
+  const variants = (await dataService.getAllRecipes()).filter(r => r.parentId === fromId && r.id !== toId)
+  for (const variant of variants) {
+    const updated: Recipe = { ...variant, parentId: toId, updatedAt: new Date().toISOString() }
+    if (!toId) delete updated.parentId
+    await dataService.saveRecipe(updated)
+    recipesStore.update(recipes => recipes.map(r => r.id === updated.id ? { ...updated, metadata: r.metadata } : r))
+  }
+}
+
+// Point sub-recipe ingredients to another recipe (none: they become plain ingredients)
+async function relinkSubRecipes(fromId: string, toId: string | undefined): Promise<void> {
+  const users = (await dataService.getAllRecipes())
+    .filter(r => r.id !== toId && r.ingredients.some(i => i.recipeId === fromId))
+  for (const user of users) {
+    const updated: Recipe = { ...user, ingredients: relinkIngredients(user.ingredients, fromId, toId), updatedAt: new Date().toISOString() }
+    await dataService.saveRecipe(updated)
+    recipesStore.update(recipes => recipes.map(r => r.id === updated.id ? { ...updated, metadata: r.metadata } : r))
+  }
+}
+
+function relinkIngredients(ingredients: Ingredient[], fromId: string, toId: string | undefined): Ingredient[] {
+  return ingredients.map(ingredient => {
+    if (ingredient.recipeId !== fromId) return ingredient
+    const { recipeId, ...plain } = ingredient
+    return toId ? { ...plain, recipeId: toId } : plain
+  })
+}
+
+// Merge a duplicate into the recipe to keep, then delete it
+export async function mergeDuplicate(keepId: string, removeId: string): Promise<void> {
+  const kept = await dataService.getRecipeWithMeta(keepId)
+  const removed = await dataService.getRecipeWithMeta(removeId)
+  if (!kept || !removed) throw new Error('Recipe not found')
+
+  const { recipe, metadata } = mergeRecipes(kept, removed)
+  // The kept recipe may be a variant of the removed one
+  if (recipe.parentId === removeId) delete recipe.parentId
+  // ...or use it as a sub-recipe: it would use itself
+  recipe.ingredients = relinkIngredients(recipe.ingredients, removeId, undefined)
+  await dataService.saveRecipe(recipe)
+  await dataService.saveMetadata(metadata)
+
+  // Planned meals now point to the kept recipe
+  const planning = await dataService.getAllPlanning()
+  for (const entry of planning.filter(e => e.recipeId === removeId)) {
+    await dataService.savePlanningEntry({ ...entry, recipeId: keepId })
+  }
+
+  // Variants of the removed recipe now come from the kept one
+  await reparentVariants(removeId, keepId)
+  // Sub-recipe ingredients too
+  await relinkSubRecipes(removeId, keepId)
+
+  await dataService.deleteRecipe(removeId)
+
+  recipesStore.update(recipes => recipes
+    .filter(r => r.id !== removeId)
+    .map(r => r.id === keepId ? { ...recipe, metadata } : r)
+  )
+}
+
+// Import recipes with their metadata (e.g. from Markdown files), replacing same ids
+export async function importRecipes(entries: { recipe: Recipe; metadata: RecipeMetadata }[]): Promise<void> {
+  // Queued changes are sent to GitHub together, in one commit per file
+  await dataService.saveAllRecipes(entries.map(e => e.recipe))
+  await dataService.saveAllMetadata(entries.map(e => e.metadata))
+
+  recipesStore.update(recipes => {
+    const imported = new Map(entries.map(e => [e.recipe.id, { ...e.recipe, metadata: e.metadata }]))
+    const updated = recipes.map(r => imported.get(r.id) ?? r)
+    const added = Array.from(imported.values()).filter(r => !recipes.some(existing => existing.id === r.id))
+    return [...updated, ...added]
+  })
+}
+
 // Add history entry
 export async function addHistoryEntry(id: string, notes?: string): Promise<void> {
   const metadata = await dataService.getMetadata(id)
@@ -192,3 +353,10 @@ export const searchQuery = searchQueryStore
 export const statusFilter = statusFilterStore
 export const tagsFilter = tagsFilterStore
 export const minRating = minRatingStore
+export const maxTimeFilter = maxTimeStore
+export const neverMadeFilter = neverMadeStore
+export const notMadeWeeksFilter = notMadeWeeksStore
+export const hasImageFilter = hasImageStore
+export const sourceDomainFilter = sourceDomainStore
+export const sortBy = sortStore
+export const groupVariantsOption = groupVariantsStore
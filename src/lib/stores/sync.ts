@@ -0,0 +1,26 @@
+import { readable, writable } from 'svelte/store'
+import { getSyncStatus, onSyncStatusChange, onRemoteChanges, startBackgroundSync, syncNow } from '../services/sync'
+import { loadRecipes } from './recipes'
+
+// Sync status for the navigation indicator
+export const syncStatus = readable(getSyncStatus(), set => onSyncStatusChange(set))
+
+// Incremented each time remote data is pulled, so views can reload
+const remoteVersionStore = writable(0)
+export const remoteVersion = { subscribe: remoteVersionStore.subscribe }
+
+// Start syncing with the remote backend (app startup)
+export function initSync(): () => void {
+  const unsubscribe = onRemoteChanges(() => {
+    remoteVersionStore.update(v => v + 1)
+    loadRecipes()
+  })
+  const stop = startBackgroundSync()
+
+  return () => {
+    unsubscribe()
+    stop()
+  }
+}
+
+export { syncNow }
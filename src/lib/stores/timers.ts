@@ -0,0 +1,42 @@
+import { readable } from 'svelte/store'
+import { getAllTimers, saveTimer, deleteTimer, type CookingTimer } from '../services/dataService'
+import { createTimerEngine, notifyTimer, playAlarm, prepareAlarm, type TimerOptions } from '../services/timers'
+
+const engine = createTimerEngine({
+  storage: { getAll: getAllTimers, save: saveTimer, delete: deleteTimer },
+  onFinish: timer => {
+    playAlarm()
+    notifyTimer(timer)
+  }
+})
+
+// Running timers, soonest first (whatever the page)
+export const timers = readable<CookingTimer[]>([], set => engine.subscribe(set))
+
+// Current time, every second, for countdowns
+export const now = readable(Date.now(), set => {
+  const interval = setInterval(() => set(Date.now()), 1000)
+  return () => clearInterval(interval)
+})
+
+// Load saved timers (app startup); a background tab may have missed a deadline
+export function initTimers(): () => void {
+  engine.load().catch(e => console.error('Erreur chargement minuteurs:', e))
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') engine.check()
+  }
+  document.addEventListener('visibilitychange', handleVisibility)
+
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibility)
+    engine.stop()
+  }
+}
+
+export function startTimer(options: TimerOptions): Promise<CookingTimer> {
+  prepareAlarm()
+  return engine.start(options)
+}
+
+export const cancelTimer = (id: string) => engine.cancel(id)
+export const renameTimer = (id: string, label: string) => engine.rename(id, label)
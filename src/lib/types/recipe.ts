@@ -3,6 +3,7 @@ export interface Ingredient {
   quantity: number
   unit: string
   group?: string // ex: "pour la sauce"
+  recipeId?: string // sous-recette (pâte brisée...), quantity en portions de cette recette
 }
 
 export interface HistoryEntry {
@@ -14,13 +15,15 @@ export interface Recipe {
   id: string
   title: string
   source?: string // URL d'origine
-  image?: string // base64 data URL ou URL externe
+  image?: string // "asset:<hash>" (image stockee a part), URL externe ou ancien base64
   prepTime?: number // minutes
   cookTime?: number // minutes
   servings: number
   ingredients: Ingredient[]
   steps: string[]
+  stepIngredients?: (number[] | null)[] // index des ingrédients de chaque étape, choisis à la main (null : détectés dans le texte)
   notes?: string
+  parentId?: string // recette d'origine, pour une variante
   createdAt: string // ISO date string
   updatedAt: string // ISO date string
 }
@@ -48,4 +51,5 @@ export interface PlanningEntry {
   day: number // 0-6 (lundi-dimanche)
   slot: MealSlot
   recipeId: string
+  servings?: number // portions pour ce repas (défaut: portions de la recette)
 }